@@ -1,16 +1,44 @@
 import "./index.css";
-import { HashRouter, Routes, Route, Link, useLocation } from "react-router-dom";
+import { HashRouter, Routes, Route, Link, useLocation, useSearchParams } from "react-router-dom";
 import { useEffect, useState } from "react";
 import { Menu, X } from "lucide-react";
 import RoomScheduleVisualizer from "./RoomScheduleVisualizer";
 import CreditPage from "./CreditPage";
 import GuidePage from "./GuidePage";
-import type { Row } from "./room-visualizer/types";
+import { loadAcademicCalendar, saveAcademicCalendar } from "./room-visualizer/academicCalendar";
+import { loadRoomInventory, saveRoomInventory } from "./room-visualizer/roomInventory";
+import { loadRuleConfig, saveRuleConfig } from "./room-visualizer/validationRules";
+import {
+  clearSavedData,
+  deleteSavedFile,
+  listRecentFiles,
+  loadSavedFile,
+  loadViewState,
+  saveFile,
+  saveViewState,
+} from "./room-visualizer/savedData";
+import { readViewParams, resolveLinkedView, writeViewParams, type LinkedView } from "./room-visualizer/deepLink";
+import { DEFAULT_MAX_HOUR, DEFAULT_MIN_HOUR } from "./room-visualizer/constants";
+import { EMPTY_ROW_FILTERS, pruneRowFilters } from "./room-visualizer/rowFilters";
+import { loadColorOverrides, saveColorOverrides } from "./room-visualizer/colorScheme";
+import type {
+  CalendarEntry,
+  ColorDimension,
+  ColorOverrides,
+  Comparison,
+  DateMode,
+  ImportLayout,
+  RecentFile,
+  RoomInfo,
+  Row,
+  RowFilters,
+  SavedFile,
+  ValidationRuleConfig,
+  ViewMode,
+} from "./room-visualizer/types";
 
 type ThemeMode = "light" | "dark";
 
-type StatusFilter = "All" | "Scheduled" | "Unassigned";
-
 function Sidebar({
   theme,
   setTheme,
@@ -121,11 +149,228 @@ function AppShell() {
 
   const [rows, setRows] = useState<Row[]>([]);
   const [room, setRoom] = useState("");
-  const [minHour, setMinHour] = useState(7); //Default time 7AM
-  const [maxHour, setMaxHour] = useState(22); //Default time 22 or 10PM
+  const [minHour, setMinHour] = useState(DEFAULT_MIN_HOUR);
+  const [maxHour, setMaxHour] = useState(DEFAULT_MAX_HOUR);
   const [detectedHeaders, setDetectedHeaders] = useState<string[]>([]);
   const [formatErrors, setFormatErrors] = useState<string[]>([]);
-  const [statusFilter, setStatusFilter] = useState<StatusFilter>("All"); //Status filter
+  const [rowFilters, setRowFilters] = useState<RowFilters>(EMPTY_ROW_FILTERS); //Term, status, subject, instructor and date filters
+  const [fileName, setFileName] = useState("");
+  const [importLayout, setImportLayout] = useState<ImportLayout | null>(null); //Sheets and columns of the loaded file
+  const [comparison, setComparison] = useState<Comparison | null>(null); //Second file to diff against
+  const [dateMode, setDateMode] = useState<DateMode>("weekly");
+  const [weekStart, setWeekStart] = useState<Date | null>(null); //null = first week of the term
+  const [viewMode, setViewMode] = useState<ViewMode>("room");
+  const [multiRoomDay, setMultiRoomDay] = useState("M"); //Day shown when rooms are side by side
+  const [multiRooms, setMultiRooms] = useState<string[]>([]);
+  const [instructor, setInstructor] = useState(""); //Instructor shown in the instructor view
+  const [colorBy, setColorBy] = useState<ColorDimension>("instructor");
+  const [colorOverrides, setColorOverrides] = useState<ColorOverrides>(loadColorOverrides);
+  const [academicCalendar, setAcademicCalendar] = useState<CalendarEntry[]>(loadAcademicCalendar);
+
+  const [roomInventory, setRoomInventory] = useState<RoomInfo[]>(loadRoomInventory);
+
+  const [validationRules, setValidationRules] = useState<ValidationRuleConfig>(loadRuleConfig);
+
+  useEffect(() => {
+    saveAcademicCalendar(academicCalendar);
+  }, [academicCalendar]);
+
+  useEffect(() => {
+    saveRoomInventory(roomInventory);
+  }, [roomInventory]);
+
+  useEffect(() => {
+    saveRuleConfig(validationRules);
+  }, [validationRules]);
+
+  useEffect(() => {
+    saveColorOverrides(colorOverrides);
+  }, [colorOverrides]);
+
+  const [recentFiles, setRecentFiles] = useState<RecentFile[]>([]);
+  const [restored, setRestored] = useState(false); //Nothing is saved until the last session is back
+  const [savedDataError, setSavedDataError] = useState("");
+
+  //Saved data lives in IndexedDB, which can fail or be refused; the message stays until dismissed
+  function reportSavedDataError(action: string) {
+    return (err: unknown) =>
+      setSavedDataError(`${action}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  function applySavedFile(file: SavedFile) {
+    setRows(file.rows);
+    setFileName(file.fileName);
+    setDetectedHeaders(file.detectedHeaders);
+    setFormatErrors(file.formatErrors);
+    setImportLayout(file.layout);
+  }
+
+  //Reopen the last file with the view it was left in
+  useEffect(() => {
+    let cancelled = false;
+
+    async function restore() {
+      const [view, recent] = await Promise.all([loadViewState(), listRecentFiles()]);
+      const file = view?.fileName ? await loadSavedFile(view.fileName) : null;
+      if (cancelled) return;
+
+      setRecentFiles(recent);
+      if (view && file) {
+        applySavedFile(file);
+        setRoom(view.room);
+        setMinHour(view.minHour);
+        setMaxHour(view.maxHour);
+        setRowFilters(view.filters);
+        setColorBy(view.colorBy);
+        setDateMode(view.dateMode);
+        setWeekStart(view.weekStart);
+        setViewMode(view.viewMode);
+        setMultiRoomDay(view.multiRoomDay);
+        setMultiRooms(view.multiRooms);
+        setInstructor(view.instructor);
+      }
+    }
+
+    //Private browsing can refuse IndexedDB; the app then works as before without saving
+    restore()
+      .catch(reportSavedDataError("Could not reopen the last session"))
+      .finally(() => {
+        if (!cancelled) setRestored(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  //Rows can change often, so the dataset is written once they settle
+  useEffect(() => {
+    if (!restored || !fileName || !rows.length || !importLayout) return;
+    const timer = setTimeout(() => {
+      saveFile({
+        fileName,
+        savedAt: Date.now(),
+        rows,
+        detectedHeaders,
+        formatErrors,
+        layout: importLayout,
+      })
+        .then(setRecentFiles)
+        .catch(reportSavedDataError(`Could not save "${fileName}" in this browser`));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [restored, fileName, rows, detectedHeaders, formatErrors, importLayout]);
+
+  useEffect(() => {
+    if (!restored || !fileName) return;
+    saveViewState({
+      fileName,
+      room,
+      minHour,
+      maxHour,
+      filters: rowFilters,
+      colorBy,
+      dateMode,
+      weekStart,
+      viewMode,
+      multiRoomDay,
+      multiRooms,
+      instructor,
+    }).catch(reportSavedDataError("Could not save the current view in this browser"));
+  }, [restored, fileName, room, minHour, maxHour, rowFilters, colorBy, dateMode, weekStart, viewMode, multiRoomDay, multiRooms, instructor]);
+
+  const location = useLocation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  //View settings from the link the page was opened with, held until there is data to apply them to
+  const [pendingLink, setPendingLink] = useState(() => readViewParams(searchParams));
+
+  //A link pasted into an open tab only changes the hash. The app's own address bar updates
+  //replace history entries, which fires no hashchange, so this sees only outside changes.
+  useEffect(() => {
+    function onHashChange() {
+      const [path, query = ""] = window.location.hash.replace(/^#/, "").split("?");
+      if (path !== "/" && path !== "") return;
+      const linked = readViewParams(new URLSearchParams(query));
+      if (linked) setPendingLink(linked);
+    }
+
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  function applyLinkedView(view: Partial<LinkedView>) {
+    if (view.room !== undefined) setRoom(view.room);
+    if (view.filters !== undefined) setRowFilters(view.filters);
+    if (view.colorBy !== undefined) setColorBy(view.colorBy);
+    if (view.minHour !== undefined) setMinHour(view.minHour);
+    if (view.maxHour !== undefined) setMaxHour(view.maxHour);
+    if (view.dateMode !== undefined) setDateMode(view.dateMode);
+    if (view.weekStart !== undefined) setWeekStart(view.weekStart);
+    if (view.viewMode !== undefined) setViewMode(view.viewMode);
+    if (view.multiRoomDay !== undefined) setMultiRoomDay(view.multiRoomDay);
+    if (view.multiRooms !== undefined) setMultiRooms(view.multiRooms);
+    if (view.instructor !== undefined) setInstructor(view.instructor);
+  }
+
+  //The link wins over the restored session, whether the data was restored or uploaded afterwards
+  useEffect(() => {
+    if (!pendingLink || !restored || !rows.length) return;
+    applyLinkedView(resolveLinkedView(pendingLink, rows));
+    setPendingLink(null);
+  }, [pendingLink, restored, rows]);
+
+  //Keep the address bar in step with the view so it can be copied at any time
+  useEffect(() => {
+    if (!restored || pendingLink || location.pathname !== "/") return;
+    const next = writeViewParams({
+      room,
+      minHour,
+      maxHour,
+      filters: rowFilters,
+      colorBy,
+      dateMode,
+      weekStart,
+      viewMode,
+      multiRoomDay,
+      multiRooms,
+      instructor,
+    });
+    if (next.toString() !== searchParams.toString()) setSearchParams(next, { replace: true });
+  }, [restored, pendingLink, location.pathname, searchParams, setSearchParams, room, minHour, maxHour, rowFilters, colorBy, dateMode, weekStart, viewMode, multiRoomDay, multiRooms, instructor]);
+
+  //Views are reset the same way as for a fresh upload
+  function resetView(nextRows: Row[]) {
+    setRoom(nextRows.find(r => r.room)?.room || "");
+    setWeekStart(null);
+    setMultiRooms([]);
+    setInstructor("");
+    setRowFilters(prev => pruneRowFilters(prev, nextRows));
+    setComparison(null);
+  }
+
+  async function openRecentFile(name: string) {
+    const file = await loadSavedFile(name);
+    if (!file) {
+      setRecentFiles(await deleteSavedFile(name));
+      return;
+    }
+    applySavedFile(file);
+    resetView(file.rows);
+  }
+
+  async function removeRecentFile(name: string) {
+    setRecentFiles(await deleteSavedFile(name));
+  }
+
+  async function clearAllSavedData() {
+    await clearSavedData();
+    setRecentFiles([]);
+    setRows([]);
+    setFileName("");
+    setDetectedHeaders([]);
+    setFormatErrors([]);
+    setImportLayout(null);
+    resetView([]);
+  }
   
   return (
     <div className="h-screen w-full bg-background text-foreground">
@@ -171,8 +416,44 @@ function AppShell() {
 				  setDetectedHeaders={setDetectedHeaders}
 				  formatErrors={formatErrors}
 				  setFormatErrors={setFormatErrors}
-				  statusFilter={statusFilter}
-				  setStatusFilter={setStatusFilter}
+				  rowFilters={rowFilters}
+				  setRowFilters={setRowFilters}
+				  fileName={fileName}
+				  setFileName={setFileName}
+				  importLayout={importLayout}
+				  setImportLayout={setImportLayout}
+				  comparison={comparison}
+				  setComparison={setComparison}
+				  dateMode={dateMode}
+				  setDateMode={setDateMode}
+				  weekStart={weekStart}
+				  setWeekStart={setWeekStart}
+				  academicCalendar={academicCalendar}
+				  setAcademicCalendar={setAcademicCalendar}
+				  roomInventory={roomInventory}
+				  setRoomInventory={setRoomInventory}
+				  validationRules={validationRules}
+				  setValidationRules={setValidationRules}
+				  viewMode={viewMode}
+				  setViewMode={setViewMode}
+				  multiRoomDay={multiRoomDay}
+				  setMultiRoomDay={setMultiRoomDay}
+				  multiRooms={multiRooms}
+				  setMultiRooms={setMultiRooms}
+				  instructor={instructor}
+				  setInstructor={setInstructor}
+				  colorBy={colorBy}
+				  setColorBy={setColorBy}
+				  colorOverrides={colorOverrides}
+				  setColorOverrides={setColorOverrides}
+				  recentFiles={recentFiles}
+				  onOpenRecentFile={name => openRecentFile(name).catch(reportSavedDataError(`Could not open "${name}"`))}
+				  onRemoveRecentFile={name => removeRecentFile(name).catch(reportSavedDataError(`Could not remove "${name}"`))}
+				  onClearSavedData={() =>
+					clearAllSavedData().catch(reportSavedDataError("Could not clear saved data; it is still in this browser"))
+				  }
+				  savedDataError={savedDataError}
+				  onDismissSavedDataError={() => setSavedDataError("")}
 				/>
 			  }
 			/>
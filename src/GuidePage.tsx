@@ -1,3 +1,5 @@
+import { RECENT_FILES_LIMIT } from "./room-visualizer/constants";
+
 export default function GuidePage() {
   return (
     <div className="h-full bg-background text-foreground">
@@ -15,11 +17,14 @@ export default function GuidePage() {
           <h2 className="text-xl font-semibold">What this tool can do</h2>
           <ul className="list-disc pl-6 space-y-2">
             <li>Show a weekly room schedule from Sunday through Saturday</li>
-            <li>Color-code instructors visible in the selected room</li>
-            <li>Filter the graph by status: <code>All</code>, <code>Scheduled</code>, or <code>Unassigned</code></li>
+            <li>Color-code blocks by instructor, room, subject, status, term or enrollment</li>
+            <li>Filter the graph by term, status, subject, instructor and date range</li>
             <li>Detect conflicts and notices in the Validation tab</li>
             <li>Support light mode and dark mode</li>
-            <li>Export the current graph as a PNG image with room, status, and instructor legend</li>
+            <li>Export the current graph as a PNG or SVG image with room, filters, and color legend</li>
+            <li>Export every room at once as a zip of images or a multi-page PDF</li>
+            <li>Compare a second file (for example draft vs. published) and see added, removed, and changed sections</li>
+            <li>Import <code>.xlsx</code> workbooks as well as <code>.csv</code> and <code>.tsv</code> text exports</li>
           </ul>
         </section>
 
@@ -48,7 +53,10 @@ export default function GuidePage() {
           </div>
 
           <p className="text-sm text-muted-foreground">
-            Column order does not matter. Extra columns are allowed.
+            Column order does not matter. Extra columns are allowed. An optional{" "}
+            <code>Required Features</code> column (e.g. <code>Projector, Lab benches</code>) is
+            checked against the room inventory. An optional <code>Cross-list</code> column
+            groups sections that meet together as one class.
           </p>
         </section>
 
@@ -73,7 +81,7 @@ export default function GuidePage() {
               times
             </li>
             <li>
-              <strong>Instructor</strong>: used for color coding and legend display
+              <strong>Instructor</strong>: used for the instructor view, filters, and color coding
             </li>
             <li>
               <strong>Room</strong>: used to group classes by room
@@ -104,11 +112,27 @@ export default function GuidePage() {
           <h2 className="text-xl font-semibold">How the weekly graph works</h2>
           <ul className="list-disc pl-6 space-y-2">
             <li>The schedule is shown as a weekly layout from <strong>Sunday to Saturday</strong></li>
-            <li>The graph shows weekly meeting patterns, not every date in the full term</li>
+            <li>By default the graph shows weekly meeting patterns, not every date in the full term</li>
+            <li>
+              Switch to <strong>Calendar week</strong> to pick a specific week (or jump to a date);
+              only sessions whose Start Date and End Date cover that week are shown, and the
+              column headers show the real dates
+            </li>
             <li>The tooltip still shows the original course date range from the Excel file</li>
             <li>Blocks are grouped into lanes when multiple sessions overlap on the same day and time</li>
             <li>Hovering a block highlights related blocks for the same course, instructor, and room</li>
             <li>Clicking a block opens its detail tooltip; clicking it again closes the tooltip</li>
+            <li>
+              <strong>Color by</strong> chooses what the block colors mean: instructor, room,
+              subject, status, term, or enrollment band (0–24, 25–49, 50–99 or 100+ seats, and
+              Unknown when Max Enrollment is blank). The instructor view shows rooms when Color by is set to instructor
+            </li>
+            <li>
+              Colors are picked from the value itself, so an instructor or term keeps the same color
+              in every room and week. Some values can share a color; click a swatch in the legend to
+              choose a different one. Your choices are saved in this browser, and{" "}
+              <strong>Reset colors</strong> goes back to the defaults
+            </li>
           </ul>
         </section>
 
@@ -119,8 +143,29 @@ export default function GuidePage() {
               Use the <strong>Room</strong> dropdown to choose which room to view
             </li>
             <li>
-              Use the <strong>Status</strong> dropdown to filter the graph by{" "}
-              <code>All</code>, <code>Scheduled</code>, or <code>Unassigned</code>
+              Switch to <strong>Rooms side by side</strong> to compare several rooms on a single
+              day: pick rooms from the list or select every room in a building at once
+            </li>
+            <li>
+              Switch to <strong>Instructor</strong> to see one instructor's week across every room.
+              Blocks are colored by room, and classes in different buildings with 15 minutes or
+              less between them are outlined in red and listed above the graph
+            </li>
+            <li>
+              The filter bar above the graph lists the <strong>Term</strong>,{" "}
+              <strong>Status</strong>, <strong>Subject</strong> and <strong>Instructor</strong>{" "}
+              values found in your file. Tick one or more values in each; a dropdown with nothing
+              ticked shows everything. Subject is the letters at the start of Course/Section, such
+              as <code>MMET</code> for <code>MMET 181/501 LEC</code>
+            </li>
+            <li>
+              <strong>Meets from</strong> and <strong>Meets until</strong> keep only classes whose
+              start and end dates overlap the range; rows without dates are hidden while a date is
+              set
+            </li>
+            <li>
+              Filters combine with each other and with the room or instructor view, and every
+              export (PNG, SVG, all rooms, calendar) uses the same filtered rows
             </li>
             <li>
               Use the visible time sliders to control the start and end hour shown on the graph
@@ -129,27 +174,272 @@ export default function GuidePage() {
               Use the global theme toggle in the sidebar to switch between light mode and dark mode
             </li>
 			<li>
-              If no sessions match the selected room and status filter, a message will be shown instead of an empty graph
+              If no sessions match the selected room and filters, a message will be shown instead of an empty graph
+            </li>
+            <li>
+              The address bar follows what you are looking at: room, filters, visible hours, view
+              mode, instructor or rooms side by side, and the calendar week, for example{" "}
+              <code>#/?room=B204&amp;status=Scheduled&amp;min=8&amp;max=18</code>. Copy it to share
+              the same view
+            </li>
+            <li>
+              A shared link is applied once the recipient has a schedule loaded, from an upload or
+              from the saved session. Rooms, instructors and filter values that are not in their file are ignored,
+              and uploading the same file again keeps the linked room. A link pasted into a tab
+              that already has the visualizer open is applied the same way
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Academic calendar</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Open <strong>Academic calendar</strong> on the Schedule tab to add holidays,
+              breaks, and makeup days, or import them from a file with <code>Type</code>,{" "}
+              <code>Label</code>, <code>Start Date</code>, <code>End Date</code>, and{" "}
+              <code>Follows</code> columns
+            </li>
+            <li>
+              A makeup day runs another weekday's schedule; <code>Follows</code> names that
+              weekday (for example <code>Friday</code>)
+            </li>
+            <li>
+              In Calendar week mode, sessions that fall on a holiday or break are shown faded
+              and marked closed, and makeup days show the classes they take over
+            </li>
+            <li>
+              Room and instructor conflicts are only reported when the classes share at least
+              one day on which campus is open
+            </li>
+            <li>The calendar is saved in this browser and reused for later uploads</li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Cross-listed and co-taught sections</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Sections in the same room with exactly the same days, times and dates are treated as
+              one class meeting, e.g. a course cross-listed under two subjects or taught by two
+              instructors
+            </li>
+            <li>
+              Sections that share a value in the optional <code>Cross-list</code> column (within
+              the same term) are grouped too, even if their rooms or times differ
+            </li>
+            <li>
+              A group is drawn as a single block listing every course and instructor. It never
+              conflicts with itself, and a clash with another class is reported once
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Room inventory</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Open <strong>Room inventory</strong> and import a file with <code>Room</code>,{" "}
+              <code>Building</code>, <code>Capacity</code> and <code>Features</code> columns.
+              Features are separated by commas
+            </li>
+            <li>
+              The Validation tab then reports sections whose <strong>Max Enrollment</strong> is
+              larger than the room's capacity, and sections whose <code>Required Features</code>{" "}
+              the room does not list
+            </li>
+            <li>
+              Clicking a block shows how many of the room's seats the section uses
+            </li>
+            <li>
+              The inventory is saved in this browser so you only need to import it once
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Validation rules</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Open <strong>Validation rules</strong> in the Validation tab to turn checks on or off
+              and set their limits
+            </li>
+            <li>
+              Missing data, room and instructor conflicts, and room capacity/features are on by
+              default
+            </li>
+            <li>
+              Policy rules are off until you enable them: minimum passing time between classes
+              in a room, maximum teaching hours per instructor per day, earliest start time,
+              reserved hours for chosen rooms or buildings, and standard MWF / TR start times
+            </li>
+            <li>
+              Policy rules are reported as warnings; cross-listed sections are checked as one
+              class
+            </li>
+            <li>Rule settings are saved in this browser</li>
+            <li>
+              <strong>Export report (XLSX)</strong> downloads every issue in a workbook with
+              separate Conflicts, Missing Data and Header Problems sheets (other issues go on an
+              extra sheet). Each row of the file involved in an issue gets its own line, with
+              the issue's number, type and message, the source sheet and row number, and every
+              field of that row
+            </li>
+            <li>
+              <strong>Export report (CSV)</strong> writes the same issues to a single table
             </li>
           </ul>
         </section>
 
         <section className="space-y-3">
-          <h2 className="text-xl font-semibold">PNG export</h2>
+          <h2 className="text-xl font-semibold">Editing the schedule</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Click <strong>Edit schedule</strong>, then drag a block up or down to change its time,
+              or sideways to another day. Drag the bottom edge of a block to change when it ends
+            </li>
+            <li>
+              A row has one start time, end time and room, so changing them affects every day the
+              class meets. Moving a block to another day swaps only that day in its Days Met, and
+              is refused if the class already meets on the new day
+            </li>
+            <li>
+              To move a class to another room, switch to <strong>Rooms side by side</strong> and
+              drag its block onto that room's column
+            </li>
+            <li>
+              Choose a 5, 10, 15 or 30 minute <strong>Snap to</strong> grid. <strong>Undo</strong>{" "}
+              and <strong>Redo</strong> (Ctrl+Z and Ctrl+Shift+Z) step back and forward through your
+              edits, and the validation tab updates after each one
+            </li>
+            <li>
+              Blocks on closed days and makeup days cannot be dragged; edit the class on a regular
+              day instead
+            </li>
+            <li>
+              <strong>Download workbook</strong> saves an <code>.xlsx</code> with the same sheets
+              and column headers as the uploaded file, edits from the schedule and the Data tab
+              included. Columns the app does not read keep the values they were uploaded with
+            </li>
+            <li>
+              With <strong>Include change log</strong> ticked, the workbook gets a{" "}
+              <strong>Change Log</strong> sheet listing each changed cell's sheet, row, column, old
+              value and new value
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Data table</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              The <strong>Data</strong> tab shows every row of the file, with the sheet and row it
+              came from
+            </li>
+            <li>
+              Click a column header to sort by it (again to reverse, a third time to go back to file
+              order). The box under each header filters that column, and the search box looks in
+              every column
+            </li>
+            <li>
+              Double-click a cell to edit it and press Enter to save or Escape to cancel. Dates, times
+              and Days Met must be in a format the schedule can read, and Max Enrollment must be a
+              whole number; anything else stays open in red with the reason, and is not saved until
+              it is corrected
+            </li>
+            <li>
+              Click a row to highlight its blocks on the schedule, then use{" "}
+              <strong>Show on schedule</strong> to open its room (or its instructor if it has no room)
+              at the week it starts
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Finding a free room</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Open <strong>Find a free room</strong>, pick the days, a time window and a date
+              range (the term dates from your file by default), then press <strong>Search</strong>
+            </li>
+            <li>
+              A room is free only if none of its scheduled classes meet on any of those days within the
+              date range at an overlapping time. Holidays and breaks from the academic calendar
+              are skipped
+            </li>
+            <li>
+              <strong>Min. seats</strong> is compared against the room inventory's capacity, or
+              the largest Max Enrollment scheduled in rooms not in the inventory. Rooms whose
+              capacity is unknown are left out when a minimum is set. Results with the fewest spare seats come first, then
+              rooms whose existing classes sit closest to the requested slot
+            </li>
+            <li>
+              Click a result to open that room; the requested slot is outlined in blue
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Comparing two schedules</h2>
+          <ul className="list-disc pl-6 space-y-2">
+            <li>
+              Load your main file first, then use <strong>Compare with…</strong> to load a
+              second version of the schedule
+            </li>
+            <li>
+              Rows are matched by <strong>Course Offering Id</strong>; changes to room, time,
+              instructor, and days are listed in the <strong>Compare</strong> tab
+            </li>
+            <li>
+              On the graph, added sections get a green dashed outline, changed sections an
+              amber one, and the previous position of removed or changed sections is drawn
+              as a red dashed outline
+            </li>
+          </ul>
+        </section>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">PNG, SVG and PDF export</h2>
           <ul className="list-disc pl-6 space-y-2">
             <li>
               Export uses the current graph view, including the active theme
             </li>
             <li>
-              Export includes the selected room and status in the image title
+              Export includes the selected room and active filters in the image title
             </li>
             <li>
-              Export also includes an instructor legend below the graph
+              Export also includes the color legend below the graph, following the Color by option
             </li>
             <li>
-              The downloaded PNG filename includes both room and status, such as{" "}
+              The downloaded PNG filename includes both room and filters, such as{" "}
               <code>room-EABB-113-Scheduled.png</code>
             </li>
+            <li>
+              <strong>Export SVG</strong> downloads the same image as a vector file, which stays
+              sharp when printed as a large poster
+            </li>
+            <li>
+              <strong>Export all rooms</strong> draws every room that has classes under the
+              current filters and downloads them together: PNG or SVG images in one{" "}
+              <code>.zip</code>, or a single PDF with one page per room headed by the room, term,
+              filters and the time the PDF was generated
+            </li>
+            <li>
+              A progress bar shows how many rooms are done, and <strong>Cancel</strong> stops the
+              export without downloading anything. PDF pages use the light theme for printing,
+              and every room follows the current week in Calendar week mode
+            </li>
+            <li>
+              <strong>Export calendar</strong> downloads an <code>.ics</code> file with a weekly
+              recurring event for each meeting, from the row's Start Date to its End Date. Events
+              list the room, section, course offering ID and instructor, and closures or makeup
+              days from the academic calendar are applied
+            </li>
+            <li>
+              Choose the selected room, one instructor, or all rooms, which downloads a{" "}
+              <code>.zip</code> with one calendar per room. Cross-listed sections that meet together
+              become a single event
+            </li>
           </ul>
         </section>
 
@@ -201,8 +491,10 @@ export default function GuidePage() {
               not data
             </li>
             <li>
-              <strong>Wrong header names</strong>: required headers must match the
-              expected names
+              <strong>Wrong header names</strong>: if required headers do not match the
+              expected names, a column-mapping step suggests likely matches and lets you
+              map each field by hand. Mappings can be saved as named profiles in this
+              browser so the next upload from the same system maps itself
             </li>
             <li>
               <strong>Missing Start Date or End Date</strong>: the app needs a date
@@ -226,16 +518,29 @@ export default function GuidePage() {
           <h2 className="text-xl font-semibold">Privacy and session behavior</h2>
           <ul className="list-disc pl-6 space-y-2">
             <li>
-              Uploaded file data stays only in temporary in-memory app state during the current session
+              Files are read in the browser and never uploaded to a server
+            </li>
+            <li>
+              The parsed schedule and your view settings (room, hours, filters, view mode, week
+              and instructor) are saved in this browser's IndexedDB, so a refresh or a later visit
+              reopens the last file where you left it
+            </li>
+            <li>
+              <strong>Recent files</strong> lists the last {RECENT_FILES_LIMIT} uploads kept this way.
+              Open one to switch to it, remove one with its <strong>×</strong> button, or use{" "}
+              <strong>Clear saved data</strong> to delete every saved schedule and the saved view
             </li>
             <li>
-              Your uploaded schedule remains available while switching between Home, Guide, and Credits
+              Saved schedules stay until you clear them or clear site data in your browser. Private
+              windows may not keep them after the window closes. The comparison file is not saved
             </li>
             <li>
-              Refreshing the page or closing the tab clears the uploaded data
+              Saved column mappings, the academic calendar, the room inventory, validation rule
+              settings and custom colors are kept in this browser's local storage and never leave
+              your device
             </li>
             <li>
-              The file input itself may appear empty again after navigation for browser security reasons, even while parsed schedule data is still kept in memory
+              The file input itself may appear empty again after navigation for browser security reasons, even while the parsed schedule is still loaded
             </li>
           </ul>
         </section>
@@ -253,7 +558,18 @@ export default function GuidePage() {
             </li>
             <li>Column order does not matter, as long as the required headers are present</li>
             <li>Extra columns are okay and will be ignored</li>
-            <li>The app reads the first worksheet in the uploaded Excel file</li>
+            <li>
+              If a workbook has more than one worksheet, you can pick which sheet to load or
+              merge several; the tooltip and validation messages name the sheet each row came from
+            </li>
+            <li>
+              CSV and TSV files may use comma, tab, semicolon, or pipe delimiters and UTF-8
+              (with or without BOM) or Windows-1252 encoding; both are detected automatically
+            </li>
+            <li>
+              Rows in a CSV or TSV file that cannot be parsed cleanly, such as rows with the
+              wrong number of columns, are reported in the Validation tab
+            </li>
           </ul>
         </section>
 
@@ -265,9 +581,13 @@ export default function GuidePage() {
             <li>Keep the header row unchanged</li>
             <li>Make sure each scheduled class has valid dates, days, times, room, and status</li>
             <li>Upload the file on the Home page</li>
-            <li>Choose a room and optional status filter</li>
-            <li>Review the Validation tab for issues</li>
-            <li>Export the current schedule view as PNG if needed</li>
+            <li>Choose a room and any filters</li>
+            <li>
+              Review the Validation tab for issues. Filter by type or group them by room or
+              instructor, and click an issue to open the schedule with the classes involved
+              outlined in blue
+            </li>
+            <li>Export the current schedule view as PNG or SVG, or every room at once, if needed</li>
           </ol>
         </section>
 
@@ -1,31 +1,112 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import * as XLSX from "xlsx";
-import { format, isAfter, isEqual } from "date-fns";
-import { Calendar as CalendarIcon } from "lucide-react";
-import { HEADER_MAP, REQUIRED_HEADERS } from "./room-visualizer/constants";
-import type { Row, SessionInstance, ValidationSchedRow } from "./room-visualizer/types";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { strToU8, zipSync } from "fflate";
+import { Calendar as CalendarIcon, X } from "lucide-react";
+import type {
+  ColumnMapping,
+  CalendarEntry,
+  ColorDimension,
+  ColorOverrides,
+  Comparison,
+  DateMode,
+  HighlightSlot,
+  ImportLayout,
+  RecentFile,
+  RoomInfo,
+  Row,
+  RowField,
+  RowFilters,
+  SessionInstance,
+  ValidationIssue,
+  ValidationRuleConfig,
+  ViewMode,
+} from "./room-visualizer/types";
 import {
   assignColors,
+  describeRowSource,
   distinct,
   formatDisplayDate,
   formatSectionLabel,
-  generateWeeklyOccurrences,
+  getBuilding,
+  getDateForDayInWeek,
+  getSessionKey,
+  getWeekStart,
+  WEEKDAY_LABELS,
   WEEKDAY_COLUMNS,
-  getBaseCourse,
-  getSectionNumber,
-  normalizeDays,
   parseExcelDate,
   parseTimeOnDate,
-  timeRangesOverlap,
-  timeToMinutes,
 } from "./room-visualizer/utils";
+import {
+  autoMapHeaders,
+  deleteMappingProfile,
+  findMatchingProfile,
+  findUnmappedFields,
+  loadMappingProfiles,
+  saveMappingProfile,
+  suggestMapping,
+} from "./room-visualizer/columnMapping";
+import {
+  mapRecordsToRows,
+  readTabularFile,
+  type ImportedTable,
+} from "./room-visualizer/importers";
+import { buildSessions, findTightTransfers } from "./room-visualizer/sessions";
+import { findCrossListGroups } from "./room-visualizer/crossListing";
+import { BACK_TO_BACK_MINUTES, EDIT_SNAP_OPTIONS } from "./room-visualizer/constants";
+import { diffSchedules } from "./room-visualizer/diff";
+import DiffPanel from "./room-visualizer/DiffPanel";
+import { getClosure, getMakeupDay } from "./room-visualizer/academicCalendar";
+import AcademicCalendarPanel from "./room-visualizer/AcademicCalendarPanel";
+import FreeSlotFinder from "./room-visualizer/FreeSlotFinder";
+import RoomInventoryPanel from "./room-visualizer/RoomInventoryPanel";
+import type { AvailabilityQuery } from "./room-visualizer/availability";
+import MultiRoomControls from "./room-visualizer/MultiRoomControls";
+import ViewModeSwitch from "./room-visualizer/ViewModeSwitch";
+import WeekNavigator from "./room-visualizer/WeekNavigator";
 import ValidationPanel from "./room-visualizer/ValidationPanel";
+import { VALIDATION_RULES } from "./room-visualizer/validationRules";
+import ValidationRulesPanel from "./room-visualizer/ValidationRulesPanel";
+import { downloadValidationCsv, downloadValidationWorkbook } from "./room-visualizer/validationReport";
+import { useValidationIssues } from "./room-visualizer/useValidationIssues";
+import ColumnMappingWizard from "./room-visualizer/ColumnMappingWizard";
+import SheetPicker from "./room-visualizer/SheetPicker";
 import ScheduleSvg from "./room-visualizer/ScheduleSvg";
+import { getAutoHourRange, layoutSchedule } from "./room-visualizer/scheduleLayout";
+import {
+  composeExportSvg,
+  downloadBlob,
+  downloadPng,
+  downloadSvg,
+  renderRoomSchedule,
+  type ComposedSvg,
+  type SchedulePage,
+} from "./room-visualizer/scheduleExport";
+import { exportRooms, type BatchFormat } from "./room-visualizer/batchExport";
+import BatchExportPanel from "./room-visualizer/BatchExportPanel";
+import { buildIcsCalendar } from "./room-visualizer/icsExport";
+import IcsExportPanel, { type IcsScope } from "./room-visualizer/IcsExportPanel";
 import UploadControls from "./room-visualizer/UploadControls";
+import RecentFilesPanel from "./room-visualizer/RecentFilesPanel";
+import EditToolbar from "./room-visualizer/EditToolbar";
+import RowTable from "./room-visualizer/RowTable";
+import FilterBar from "./room-visualizer/FilterBar";
+import ColorLegend from "./room-visualizer/ColorLegend";
+import { colorKey, effectiveColorBy, getLegendItems } from "./room-visualizer/colorScheme";
+import {
+  describeFilters,
+  filterFileLabel,
+  getFilterOptions,
+  pruneRowFilters,
+  rowMatchesFilters,
+} from "./room-visualizer/rowFilters";
+import { applyBlockEdit, type BlockEdit } from "./room-visualizer/scheduleEditing";
+import { useBlockDrag, type DropTarget } from "./room-visualizer/useBlockDrag";
+import { useRowHistory } from "./room-visualizer/useRowHistory";
+import { downloadEditedWorkbook } from "./room-visualizer/editedWorkbook";
 
 /**
  * Room Schedule Visualizer
- * - Upload a .xlsx exported as described
+ * - Upload a .xlsx, .csv or .tsv exported as described
  * - Choose a Room
  * - See an SVG grid: X-axis = date, Y-axis = time; blocks colored by Instructor
  *
@@ -44,7 +125,19 @@ import UploadControls from "./room-visualizer/UploadControls";
  * 12. Term
  */
 
-type StatusFilter = "All" | "Scheduled" | "Unassigned";
+type ImportTarget = "primary" | "comparison";
+
+//viewRooms = null means every room; viewInstructor = null means every instructor
+function rowMatchesView(
+  r: Row,
+  viewRooms: string[] | null,
+  viewInstructor: string | null,
+  filters: RowFilters
+): boolean {
+  const matchesRoom = !viewRooms || viewRooms.includes(r.room);
+  const matchesInstructor = !viewInstructor || (r.instructor || "Unknown") === viewInstructor;
+  return matchesRoom && matchesInstructor && rowMatchesFilters(r, filters);
+}
 
 type RoomScheduleVisualizerProps = {
   theme: "light" | "dark";
@@ -60,8 +153,42 @@ type RoomScheduleVisualizerProps = {
   setDetectedHeaders: React.Dispatch<React.SetStateAction<string[]>>;
   formatErrors: string[];
   setFormatErrors: React.Dispatch<React.SetStateAction<string[]>>;
-  statusFilter: StatusFilter;
-  setStatusFilter: React.Dispatch<React.SetStateAction<StatusFilter>>;
+  rowFilters: RowFilters;
+  setRowFilters: React.Dispatch<React.SetStateAction<RowFilters>>;
+  fileName: string;
+  setFileName: React.Dispatch<React.SetStateAction<string>>;
+  importLayout: ImportLayout | null;
+  setImportLayout: React.Dispatch<React.SetStateAction<ImportLayout | null>>;
+  comparison: Comparison | null;
+  setComparison: React.Dispatch<React.SetStateAction<Comparison | null>>;
+  dateMode: DateMode;
+  setDateMode: React.Dispatch<React.SetStateAction<DateMode>>;
+  weekStart: Date | null;
+  setWeekStart: React.Dispatch<React.SetStateAction<Date | null>>;
+  academicCalendar: CalendarEntry[];
+  setAcademicCalendar: React.Dispatch<React.SetStateAction<CalendarEntry[]>>;
+  roomInventory: RoomInfo[];
+  setRoomInventory: React.Dispatch<React.SetStateAction<RoomInfo[]>>;
+  validationRules: ValidationRuleConfig;
+  setValidationRules: React.Dispatch<React.SetStateAction<ValidationRuleConfig>>;
+  viewMode: ViewMode;
+  setViewMode: React.Dispatch<React.SetStateAction<ViewMode>>;
+  multiRoomDay: string;
+  setMultiRoomDay: React.Dispatch<React.SetStateAction<string>>;
+  multiRooms: string[];
+  setMultiRooms: React.Dispatch<React.SetStateAction<string[]>>;
+  instructor: string;
+  setInstructor: React.Dispatch<React.SetStateAction<string>>;
+  colorBy: ColorDimension;
+  setColorBy: React.Dispatch<React.SetStateAction<ColorDimension>>;
+  colorOverrides: ColorOverrides;
+  setColorOverrides: React.Dispatch<React.SetStateAction<ColorOverrides>>;
+  recentFiles: RecentFile[];
+  onOpenRecentFile: (fileName: string) => void;
+  onRemoveRecentFile: (fileName: string) => void;
+  onClearSavedData: () => void;
+  savedDataError: string; //Last failure reading or writing the browser's saved data
+  onDismissSavedDataError: () => void;
 };
 
 export default function RoomScheduleVisualizer({
@@ -78,18 +205,86 @@ export default function RoomScheduleVisualizer({
   setDetectedHeaders,
   formatErrors,
   setFormatErrors,
-  statusFilter,
-  setStatusFilter,
+  rowFilters,
+  setRowFilters,
+  fileName,
+  setFileName,
+  importLayout,
+  setImportLayout,
+  comparison,
+  setComparison,
+  dateMode,
+  setDateMode,
+  weekStart,
+  setWeekStart,
+  academicCalendar,
+  setAcademicCalendar,
+  roomInventory,
+  setRoomInventory,
+  validationRules,
+  setValidationRules,
+  viewMode,
+  setViewMode,
+  multiRoomDay,
+  setMultiRoomDay,
+  multiRooms,
+  setMultiRooms,
+  instructor,
+  setInstructor,
+  colorBy,
+  setColorBy,
+  colorOverrides,
+  setColorOverrides,
+  recentFiles,
+  onOpenRecentFile,
+  onRemoveRecentFile,
+  onClearSavedData,
+  savedDataError,
+  onDismissSavedDataError,
 }: RoomScheduleVisualizerProps) {
   const fileRef = useRef<HTMLInputElement>(null);
+  const compareFileRef = useRef<HTMLInputElement>(null);
   const tooltipRef = useRef<HTMLDivElement | null>(null); //tooltip reference
   //Container ref 
   const graphContainerRef = useRef<HTMLDivElement | null>(null);
   const [containerWidth, setContainerWidth] = useState(0);
   
   //Checking validation const
-  const [activeTab, setActiveTab] = useState<"schedule" | "validation">("schedule");
+  const [activeTab, setActiveTab] = useState<"schedule" | "validation" | "data" | "compare">("schedule");
+  const [showCalendarPanel, setShowCalendarPanel] = useState(false);
+  const [showFreeSlotFinder, setShowFreeSlotFinder] = useState(false);
+  const [showInventoryPanel, setShowInventoryPanel] = useState(false);
+  const [showRulesPanel, setShowRulesPanel] = useState(false);
+  const [showBatchExport, setShowBatchExport] = useState(false);
+  const [showIcsExport, setShowIcsExport] = useState(false);
+  const [showRecentFiles, setShowRecentFiles] = useState(false);
+  const [editMode, setEditMode] = useState(false);
+  const [editSnap, setEditSnap] = useState(EDIT_SNAP_OPTIONS[0]);
+  const [editMessage, setEditMessage] = useState("");
+  const [includeChangeLog, setIncludeChangeLog] = useState(true); //Add a sheet listing edited cells to the download
+  const [highlightSlot, setHighlightSlot] = useState<HighlightSlot | null>(null);
+  //Validation issue picked in the Validation tab, kept with the rows its indices point into
+  const [selectedIssue, setSelectedIssue] = useState<{ issue: ValidationIssue; rows: Row[] } | null>(null);
+  const [selectedTableRow, setSelectedTableRow] = useState<number | null>(null); //Row picked in the data tab
   
+  //Workbook waiting for a sheet selection
+  const [pendingImport, setPendingImport] = useState<{
+    fileName: string;
+    target: ImportTarget;
+    sheets: ImportedTable[];
+  } | null>(null);
+
+  //Upload waiting for the user to map non-standard headers
+  const [pendingMapping, setPendingMapping] = useState<{
+    fileName: string;
+    target: ImportTarget;
+    tables: ImportedTable[];
+    headers: string[];
+    mapping: ColumnMapping;
+    scores: Partial<Record<RowField, number>>;
+  } | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState(loadMappingProfiles);
+
   //Hover state
   const [hoveredGroupKey, setHoveredGroupKey] = useState<string | null>(null);
   
@@ -149,291 +344,446 @@ export default function RoomScheduleVisualizer({
     () => distinct(rows.map(r => r.room).filter(Boolean)).sort(),
     [rows]
   );
-  
-  //Schedulable rows for validation
-  const schedulableRows = useMemo<ValidationSchedRow[]>(() => {
-    const out: ValidationSchedRow[] = [];
 
+  const inventoryByRoom = useMemo(
+    () => new Map(roomInventory.map(info => [info.room, info])),
+    [roomInventory]
+  );
+
+  const instructors = useMemo(
+    () => distinct(rows.map(r => r.instructor || "Unknown")).sort(),
+    [rows]
+  );
+  
+  //Earliest Start Date in the file, used as the default calendar week
+  const termStart = useMemo(() => {
+    let earliest: Date | null = null;
     for (const r of rows) {
-      const startDateObj = parseExcelDate(r.startDate);
-      const endDateObj = parseExcelDate(r.endDate);
-
-      if (!startDateObj || !endDateObj) continue;
-      if (!r.startTime || !r.endTime) continue;
-      if (!r.daysMet) continue;
-      if (!r.term) continue;
-      if (!r.status) continue;
-
-      const startTimeObj = parseTimeOnDate(startDateObj, r.startTime);
-      const endTimeObj = parseTimeOnDate(startDateObj, r.endTime);
-
-      if (isNaN(startTimeObj.getTime()) || isNaN(endTimeObj.getTime())) continue;
-      if (isAfter(startTimeObj, endTimeObj) || isEqual(startTimeObj, endTimeObj)) continue;
-
-      out.push({
-        row: r,
-        startDateObj,
-        endDateObj,
-        startTimeObj,
-        endTimeObj,
-        instructor: r.instructor || "Unknown",
-        room: r.room || "",
-        term: r.term || "",
-        status: r.status || "",
-        courseSection: r.courseSection || "",
-        daysMet: r.daysMet || "",
-      });
+      const d = parseExcelDate(r.startDate);
+      if (d && (!earliest || d < earliest)) earliest = d;
     }
-
-    return out;
+    return earliest;
   }, [rows]);
 
-  //Create session blocks on the graph
-  const sessions: SessionInstance[] = useMemo(() => {
-    const out: SessionInstance[] = [];
-
+  //Latest End Date in the file, the default end of a free-room search
+  const termEnd = useMemo(() => {
+    let latest: Date | null = null;
     for (const r of rows) {
-	  const matchesRoom = !room || r.room === room;
-	  const matchesStatus =
-		statusFilter === "All" ||
-		(statusFilter === "Scheduled" && r.status === "Scheduled") ||
-		(statusFilter === "Unassigned" && r.status === "Unassigned");
-		
-      if (matchesRoom && matchesStatus) {
-        const weeklyDates = generateWeeklyOccurrences(r);
-
-        for (const { dayCode, date } of weeklyDates) {
-          const start = parseTimeOnDate(date, r.startTime);
-          const end = parseTimeOnDate(date, r.endTime);
-
-          if (isNaN(start.getTime()) || isNaN(end.getTime())) continue;
-          if (isAfter(start, end) || isEqual(start, end)) continue;
-
-          const courseSection = r.courseSection || "";
-          const sectionNumber = getSectionNumber(courseSection);
-
-          out.push({
-            date,
-            dayCode,
-            start,
-            end,
-            instructor: r.instructor || "Unknown",
-            courseSection,
-            room: r.room || "",
-            baseCourse: getBaseCourse(courseSection),
-            sections: sectionNumber ? [sectionNumber] : [],
-            daysMet: r.daysMet || "",
-            startDate: r.startDate || "",
-            endDate: r.endDate || "",
-            term: r.term || "",
-            status: r.status || "",
-            courseOfferingIds: r.courseOfferingId ? [String(r.courseOfferingId)] : [],
-          });
-        }
-      }
+      const d = parseExcelDate(r.endDate);
+      if (d && (!latest || d > latest)) latest = d;
     }
+    return latest;
+  }, [rows]);
 
-    const merged = new Map<string, SessionInstance>();
-
-    for (const session of out) {
-      const key = [
-        session.baseCourse,
-        session.dayCode,
-        session.start.getHours(),
-        session.start.getMinutes(),
-        session.end.getHours(),
-        session.end.getMinutes(),
-        session.room,
-        session.instructor,
-      ].join("|");
-
-      const existing = merged.get(key);
-
-      if (existing) {
-        existing.sections.push(...session.sections);
-        existing.courseOfferingIds.push(...session.courseOfferingIds);
-      } else {
-        merged.set(key, {
-          ...session,
-          sections: [...session.sections],
-          courseOfferingIds: [...session.courseOfferingIds],
-        });
-      }
-    }
+  const activeWeekStart = useMemo(
+    () =>
+      dateMode === "dated"
+        ? weekStart ?? getWeekStart(termStart ?? new Date())
+        : null,
+    [dateMode, weekStart, termStart]
+  );
 
-    const deduped = Array.from(merged.values()).map(session => ({
-      ...session,
-      sections: Array.from(new Set(session.sections)).sort((a, b) => Number(a) - Number(b)),
-      courseOfferingIds: Array.from(new Set(session.courseOfferingIds)).sort(),
-    }));
+  //Rooms on screen: the selected room, or the side-by-side selection
+  const viewRooms = useMemo(
+    () =>
+      viewMode === "rooms"
+        ? multiRooms
+        : viewMode === "instructor" || !room
+        ? null
+        : [room],
+    [viewMode, multiRooms, room]
+  );
+  const viewInstructor = viewMode === "instructor" ? instructor : null;
+
+  const filterOptions = useMemo(() => getFilterOptions(rows), [rows]);
+
+  const matchingRowCount = useMemo(
+    () => rows.filter(r => rowMatchesFilters(r, rowFilters)).length,
+    [rows, rowFilters]
+  );
+
+  //"All" or the active filters, for export titles and empty-view messages
+  const filterLabel = describeFilters(rowFilters);
+
+  //Grouping looks at every row, so it runs once per file rather than once per view
+  const crossListGroups = useMemo(() => findCrossListGroups(rows), [rows]);
 
-    deduped.sort(
-      (a, b) =>
-        WEEKDAY_COLUMNS.indexOf(a.dayCode as (typeof WEEKDAY_COLUMNS)[number]) - WEEKDAY_COLUMNS.indexOf(b.dayCode as (typeof WEEKDAY_COLUMNS)[number]) ||
-        a.start.getTime() - b.start.getTime()
+  //Create session blocks on the graph
+  const sessions: SessionInstance[] = useMemo(() => {
+    const built = buildSessions(
+      rows,
+      r => rowMatchesView(r, viewRooms, viewInstructor, rowFilters),
+      crossListGroups,
+      activeWeekStart,
+      academicCalendar
     );
+    return viewMode === "rooms" ? built.filter(s => s.dayCode === multiRoomDay) : built;
+  }, [rows, viewRooms, viewInstructor, rowFilters, crossListGroups, activeWeekStart, academicCalendar, viewMode, multiRoomDay]);
+
+  const scheduleDiff = useMemo(
+    () => (comparison ? diffSchedules(comparison.rows, rows) : null),
+    [comparison, rows]
+  );
 
-    return deduped;
-  }, [rows, room, statusFilter]);
+  const comparisonCrossListGroups = useMemo(
+    () => (comparison ? findCrossListGroups(comparison.rows) : new Map<number, string>()),
+    [comparison]
+  );
+
+  //Where removed or changed offerings sat in the comparison file, drawn as outlines
+  const ghostSessions: SessionInstance[] = useMemo(() => {
+    if (!comparison || !scheduleDiff) return [];
+    return buildSessions(comparison.rows, r => {
+      const kind = scheduleDiff.kindByOfferingId.get(String(r.courseOfferingId ?? "").trim());
+      return (kind === "removed" || kind === "changed") && rowMatchesView(r, viewRooms, viewInstructor, rowFilters);
+    }, comparisonCrossListGroups, activeWeekStart, academicCalendar).filter(s => viewMode !== "rooms" || s.dayCode === multiRoomDay);
+  }, [comparison, scheduleDiff, viewRooms, viewInstructor, rowFilters, comparisonCrossListGroups, activeWeekStart, academicCalendar, viewMode, multiRoomDay]);
 
   const visibleInstructors = useMemo(
     () => distinct(sessions.map(s => s.instructor).filter(Boolean)),
     [sessions]
   );
 
-  const colorByInstructor = useMemo(
-    () => assignColors(visibleInstructors),
-    [visibleInstructors]
+  const colorDimension = effectiveColorBy(colorBy, viewMode);
+
+  //One entry per value on screen; colors come from a hash of the value, so they do not
+  //shift as the visible set changes
+  const legendItems = useMemo(() => getLegendItems(sessions, colorDimension), [sessions, colorDimension]);
+
+  const legendColors = useMemo(
+    () => assignColors(legendItems, colorOverrides[colorDimension]),
+    [legendItems, colorOverrides, colorDimension]
   );
 
-  const dateColumns = [...WEEKDAY_COLUMNS];
+  const getBlockColor = (s: SessionInstance) =>
+    legendColors.get(colorKey(s, colorDimension)) || "#94a3b8";
 
-  const validationResults = useMemo(() => {
-    const errors: string[] = [];
-    const infos: string[] = [];
-
-    errors.push(...formatErrors);
-
-    rows.forEach((r, idx) => {
-      const missing: string[] = [];
-
-      if (!r.courseSection) missing.push("Course/Section");
-      if (!r.startDate) missing.push("Start Date");
-      if (!r.endDate) missing.push("End Date");
-      if (!r.daysMet) missing.push("Days Met");
-      if (!r.startTime) missing.push("Start Time");
-      if (!r.endTime) missing.push("End Time");
-      if (!r.room) missing.push("Room");
-      if (!r.instructor) missing.push("Instructor");
-      if (!r.term) missing.push("Term");
-      if (!r.status) missing.push("Status");
-
-      if (missing.length > 0) {
-        infos.push(
-          `Row ${idx + 2} (${r.courseSection || "Unknown course"}): missing ${missing.join(", ")}`
-        );
-      }
+  function overrideColor(value: string, color: string) {
+    setColorOverrides(prev => ({ ...prev, [colorDimension]: { ...prev[colorDimension], [value]: color } }));
+  }
+
+  function resetColorOverrides() {
+    setColorOverrides(prev => {
+      const next = { ...prev };
+      delete next[colorDimension];
+      return next;
     });
+  }
 
-    for (let i = 0; i < schedulableRows.length; i++) {
-      for (let j = i + 1; j < schedulableRows.length; j++) {
-        const a = schedulableRows[i];
-        const b = schedulableRows[j];
+  //Back-to-back classes in different buildings for the instructor being viewed
+  const tightTransfers = useMemo(
+    () => (viewMode === "instructor" ? findTightTransfers(sessions, BACK_TO_BACK_MINUTES) : []),
+    [viewMode, sessions]
+  );
 
-        if (a.term !== b.term) continue;
-        if (a.status !== "Scheduled" || b.status !== "Scheduled") continue;
+  //The free-slot finder's window, shown only on the room it picked
+  const highlight = useMemo(() => {
+    if (!highlightSlot || viewMode !== "room" || highlightSlot.room !== room) return null;
+    const ref = new Date(2000, 0, 3);
+    return {
+      columns: highlightSlot.days,
+      start: parseTimeOnDate(ref, highlightSlot.startTime),
+      end: parseTimeOnDate(ref, highlightSlot.endTime),
+    };
+  }, [highlightSlot, viewMode, room]);
 
-        const aDays = new Set(normalizeDays(a.daysMet));
-        const bDays = new Set(normalizeDays(b.daysMet));
-        const sharedDays = [...aDays].some(day => bDays.has(day));
-        if (!sharedDays) continue;
+  const activeIssue = selectedIssue && selectedIssue.rows === rows ? selectedIssue.issue : null;
 
-        const dateRangesOverlap =
-          a.startDateObj <= b.endDateObj && b.startDateObj <= a.endDateObj;
-        if (!dateRangesOverlap) continue;
+  //Indices survive edits, but not a different file with fewer rows
+  const activeTableRow = selectedTableRow !== null && selectedTableRow < rows.length ? selectedTableRow : null;
 
-        const timesOverlap = timeRangesOverlap(
-          a.startTimeObj,
-          a.endTimeObj,
-          b.startTimeObj,
-          b.endTimeObj
-        );
-        if (!timesOverlap) continue;
-
-        if (
-          a.room &&
-          b.room &&
-          a.room === b.room &&
-          a.instructor !== b.instructor
-        ) {
-          errors.push(
-            `Room conflict in ${a.term}: room ${a.room} has overlapping scheduled classes "${a.courseSection}" (${a.instructor}) and "${b.courseSection}" (${b.instructor}).`
-          );
-        }
-
-        if (
-          a.instructor &&
-          b.instructor &&
-          a.instructor === b.instructor &&
-          a.room &&
-          b.room &&
-          a.room !== b.room
-        ) {
-          errors.push(
-            `Instructor conflict in ${a.term}: ${a.instructor} has overlapping scheduled classes in different rooms (${a.room} and ${b.room}).`
-          );
-        }
+  const selectedRowIndices = useMemo(
+    () =>
+      activeIssue
+        ? new Set(activeIssue.rowIndices)
+        : activeTableRow !== null
+        ? new Set([activeTableRow])
+        : undefined,
+    [activeIssue, activeTableRow]
+  );
+
+  const flaggedSessionKeys = useMemo(
+    () => new Set(tightTransfers.flatMap(t => [getSessionKey(t.from), getSessionKey(t.to)])),
+    [tightTransfers]
+  );
+
+  const dayLabels: Record<string, string> = {};
+  const dayNotes: Record<string, string> = {};
+  for (const day of WEEKDAY_COLUMNS) {
+    const date = activeWeekStart ? getDateForDayInWeek(activeWeekStart, day) : null;
+    dayLabels[day] = date
+      ? `${WEEKDAY_LABELS[day]} ${format(date, "M/d")}`
+      : WEEKDAY_LABELS[day];
+
+    if (date) {
+      const closure = getClosure(academicCalendar, date);
+      const makeup = getMakeupDay(academicCalendar, date);
+      if (closure) dayNotes[day] = `Closed: ${closure.label}`;
+      else if (makeup?.followsDay) dayNotes[day] = `${WEEKDAY_LABELS[makeup.followsDay]} schedule`;
+    }
+  }
+
+  //Columns are weekdays for a single room, or rooms for a single day
+  const dateColumns: string[] = useMemo(
+    () => (viewMode === "rooms" ? multiRooms : [...WEEKDAY_COLUMNS]),
+    [viewMode, multiRooms]
+  );
+  const columnKeyFor = useCallback(
+    (s: SessionInstance) => (viewMode === "rooms" ? s.room : s.dayCode),
+    [viewMode]
+  );
+
+  const columnLabels: Record<string, string> = viewMode === "rooms"
+    ? Object.fromEntries(multiRooms.map(r => [r, r]))
+    : dayLabels;
+  const columnNotes: Record<string, string> = viewMode === "rooms"
+    ? Object.fromEntries(
+        multiRooms
+          .filter(() => dayNotes[multiRoomDay])
+          .map(r => [r, dayNotes[multiRoomDay]])
+      )
+    : dayNotes;
+
+  //Edits made by dragging blocks; validation below re-runs on every change
+  const rowHistory = useRowHistory(rows, setRows);
+
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        rowHistory.undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        rowHistory.redo();
       }
     }
 
-    return {
-      errors: Array.from(new Set(errors)),
-      infos: Array.from(new Set(infos)),
-    };
-  }, [rows, schedulableRows, formatErrors]);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [rowHistory]);
+
+  //Validation runs in a worker, so edits on large files do not freeze the page
+  const validationRequest = useMemo(
+    () => ({
+      rows,
+      calendar: academicCalendar,
+      formatErrors,
+      inventoryByRoom,
+      config: validationRules,
+    }),
+    [rows, academicCalendar, formatErrors, inventoryByRoom, validationRules]
+  );
+  const { validationIssues, checkingValidation } = useValidationIssues(validationRequest);
 
   // Determine Y scale domain
-  const [autoMinHour, autoMaxHour] = useMemo(() => {
-    if (!sessions.length) return [7, 22];
-    let minM = Infinity, maxM = -Infinity;
-    for (const s of sessions) {
-      minM = Math.min(minM, timeToMinutes(s.start));
-      maxM = Math.max(maxM, timeToMinutes(s.end));
-    }
-    // Pad 30 minutes each side
-    minM = Math.floor(Math.max(0, minM - 30) / 60);
-    maxM = Math.ceil(Math.min(24 * 60, maxM + 30) / 60);
-    return [minM, maxM];
-  }, [sessions]);
+  const [autoMinHour, autoMaxHour] = useMemo(
+    () => getAutoHourRange(sessions, highlight),
+    [sessions, highlight]
+  );
 
   const effectiveMin = Math.min(minHour, autoMinHour);
   const effectiveMax = Math.max(maxHour, autoMaxHour);
 
   // ---- Handlers ----
-  function handleFile(file: File) {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-    const data = new Uint8Array(e.target?.result as ArrayBuffer);
-    const wb = XLSX.read(data, { type: "array" });
-    const ws = wb.Sheets[wb.SheetNames[0]];
-    const json: any[] = XLSX.utils.sheet_to_json(ws, { defval: "" });
-
-    const headers = json.length ? Object.keys(json[0]) : [];
-    setDetectedHeaders(headers);
+  async function handleFile(file: File, target: ImportTarget) {
+    let tables: ImportedTable[];
+    try {
+      tables = await readTabularFile(file);
+    } catch (err) {
+      setFormatErrors([`Could not read "${file.name}": ${err instanceof Error ? err.message : String(err)}`]);
+      return;
+    }
 
-    const missingHeaders = REQUIRED_HEADERS.filter(
-      required =>
-        !headers.some(h => String(h).trim().toLowerCase() === required.toLowerCase())
-    );
+    if (tables.length > 1) {
+      setPendingImport({ fileName: file.name, target, sheets: tables });
+      return;
+    }
 
-    if (missingHeaders.length > 0) {
-      setFormatErrors([
-        `Missing required header(s): ${missingHeaders.join(", ")}`
-      ]);
-    } else {
-      setFormatErrors([]);
+    loadTables(tables, file.name, target);
+  }
+
+  //Load one table, or merge several worksheets into a single row set
+  function loadTables(tables: ImportedTable[], fileName: string, target: ImportTarget) {
+    setPendingImport(null);
+
+    const headers = distinct(tables.flatMap(t => t.headers));
+    const exact = autoMapHeaders(headers);
+
+    if (findUnmappedFields(exact, headers).length === 0) {
+      finishLoad(tables, exact, fileName, target);
+      return;
+    }
+
+    //A saved profile for this export format maps itself without asking
+    const profile = findMatchingProfile(mappingProfiles, headers);
+    if (profile) {
+      finishLoad(tables, profile.mapping, fileName, target);
+      return;
+    }
+
+    const { mapping, scores } = suggestMapping(headers);
+    setPendingMapping({ fileName, target, tables, headers, mapping, scores });
+  }
+
+  function applyMapping(mapping: ColumnMapping, profileName: string) {
+    if (!pendingMapping) return;
+
+    if (profileName) {
+      setMappingProfiles(
+        saveMappingProfile({ name: profileName, headers: pendingMapping.headers, mapping })
+      );
     }
 
-    const mapped: Row[] = json.map((row: any) => {
-      const out: any = {};
-      for (const [k, v] of Object.entries(row)) {
-        const key = HEADER_MAP[String(k).trim().toLowerCase()];
-        if (key) out[key] = v;
+    finishLoad(pendingMapping.tables, mapping, pendingMapping.fileName, pendingMapping.target);
+  }
+
+  function finishLoad(
+    tables: ImportedTable[],
+    mapping: ColumnMapping,
+    fileName: string,
+    target: ImportTarget
+  ) {
+    setPendingMapping(null);
+
+    if (target === "comparison") {
+      setComparison({
+        fileName,
+        rows: tables.flatMap(table => mapRecordsToRows(table, mapping)),
+      });
+      return;
+    }
+
+    const headers = distinct(tables.flatMap(t => t.headers));
+    setDetectedHeaders(headers);
+
+    const errors: string[] = [];
+    for (const table of tables) {
+      const prefix = tables.length > 1 ? `Sheet "${table.name}": ` : "";
+      const missingHeaders = findUnmappedFields(mapping, table.headers);
+
+      if (missingHeaders.length > 0) {
+        errors.push(`${prefix}Missing required header(s): ${missingHeaders.join(", ")}`);
       }
-      return out as Row;
-    });
+      errors.push(...table.parseErrors.map(msg => `${prefix}${msg}`));
+    }
+    setFormatErrors(errors);
+
+    const mapped = tables.flatMap(table => mapRecordsToRows(table, mapping));
 
     setRows(mapped);
+    setRowFilters(prev => pruneRowFilters(prev, mapped));
+    setFileName(fileName);
+    setImportLayout({
+      mapping,
+      sheets: tables.map(t => ({
+        name: t.name,
+        headers: t.headers,
+        records: t.records,
+        rowNumbers: t.rowNumbers,
+      })),
+    });
 
+    //Uploading the same file again keeps the room, so a shared link still points at it
     const firstRoom = mapped.find(r => r.room)?.room || "";
-    setRoom(firstRoom);
-    };
-    reader.readAsArrayBuffer(file);
+    setRoom(prev => (mapped.some(r => r.room === prev) ? prev : firstRoom));
   }
 
   function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
     const file = e.target.files?.[0];
-    if (file) handleFile(file);
+    if (file) handleFile(file, "primary");
+  }
+
+  function onCompareFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (file) handleFile(file, "comparison");
+    e.target.value = "";
+  }
+
+  //Start a side-by-side view with the rooms in the current room's building,
+  //and an instructor view with the first instructor teaching in the current room
+  function changeViewMode(mode: ViewMode) {
+    if (mode === "rooms" && multiRooms.length === 0 && room) {
+      setMultiRooms(rooms.filter(r => getBuilding(r) === getBuilding(room)));
+    }
+    if (mode === "instructor" && !instructor) {
+      setInstructor(visibleInstructors[0] || instructors[0] || "");
+    }
+    setViewMode(mode);
+  }
+
+  function openRoom(nextRoom: string) {
+    setRoom(nextRoom);
+    setViewMode("room");
+    setActiveTab("schedule");
+  }
+
+  //Show the classes behind a validation issue: the instructor's week for instructor
+  //conflicts, otherwise the room, in the week they first meet together
+  function openIssue(issue: ValidationIssue) {
+    if (issue.code === "instructor-conflict" || !issue.room) {
+      setInstructor(issue.instructors[0] || "");
+      setViewMode("instructor");
+      setActiveTab("schedule");
+    } else {
+      openRoom(issue.room);
+    }
+    setSelectedIssue({ issue, rows });
+    setSelectedTableRow(null);
+    showWeekOf(issue.rowIndices);
+  }
+
+  //In Calendar week mode, jump to the first week all of these rows meet
+  function showWeekOf(rowIndices: number[]) {
+    if (dateMode !== "dated") return;
+    const starts = rowIndices
+      .map(i => parseExcelDate(rows[i]?.startDate))
+      .filter((d): d is Date => !!d);
+    if (starts.length) {
+      setWeekStart(getWeekStart(new Date(Math.max(...starts.map(d => d.getTime())))));
+    }
+  }
+
+  function selectTableRow(rowIndex: number) {
+    setSelectedTableRow(rowIndex);
+    setSelectedIssue(null);
+  }
+
+  //A row's room, or its instructor's week when it has no room yet
+  function showRowOnSchedule(rowIndex: number) {
+    const row = rows[rowIndex];
+    if (!row) return;
+    if (row.room) {
+      openRoom(row.room);
+    } else {
+      setInstructor(row.instructor || "Unknown");
+      setViewMode("instructor");
+      setActiveTab("schedule");
+    }
+    showWeekOf([rowIndex]);
+  }
+
+  function editCell(rowIndex: number, field: RowField, value: string | number) {
+    rowHistory.commit(rows.map((r, i) => (i === rowIndex ? ({ ...r, [field]: value } as Row) : r)));
+  }
+
+  //Show a free-slot result on its room's grid, in the searched week when viewing real dates
+  function openFreeSlot(nextRoom: string, query: AvailabilityQuery) {
+    openRoom(nextRoom);
+    setHighlightSlot({
+      room: nextRoom,
+      days: query.days,
+      startTime: query.startTime,
+      endTime: query.endTime,
+    });
+    if (dateMode === "dated") {
+      const [y, m, d] = query.startDate.split("-").map(Number);
+      if (y && m && d) setWeekStart(getWeekStart(new Date(y, m - 1, d)));
+    }
   }
 
   //Sanitize room names
@@ -444,192 +794,170 @@ export default function RoomScheduleVisualizer({
 	  .replace(/[^\w-]/g, "");    // remove special chars
   }
 
-	function downloadPNG() {
-	  const svg = document.getElementById("schedule-svg") as SVGSVGElement | null;
-	  if (!svg) return;
-
-	  const clonedSvg = svg.cloneNode(true) as SVGSVGElement;
-	  clonedSvg.setAttribute("xmlns", "http://www.w3.org/2000/svg");
-
-	  const svgWidth =
-		Number(svg.getAttribute("width")) || svg.clientWidth || 1200;
-	  const svgHeight =
-		Number(svg.getAttribute("height")) || svg.clientHeight || 800;
-
-	  const exportBg = theme === "dark" ? "#09090b" : "#ffffff";
-	  const exportText = theme === "dark" ? "#f4f4f5" : "#111111";
-	  const exportBorder = theme === "dark" ? "#27272a" : "#e4e4e7";
-
-	  const legendItems = visibleInstructors.filter(Boolean);
-	  const legendPadding = 16;
-	  const legendTitleH = 0;
-	  const legendItemH = 22;
-	  const legendItemMinW = 220;
-	  const legendCols = Math.max(
-		1,
-		Math.floor((svgWidth - legendPadding * 2) / legendItemMinW)
-	  );
-	  const legendRows = Math.max(1, Math.ceil(legendItems.length / legendCols));
-	  const roomTitleH = room ? 26 : 0;
-	  const legendHeight =
-		legendPadding +
-		roomTitleH +
-		legendTitleH +
-		legendRows * legendItemH +
-		legendPadding;
-
-	  const totalHeight = svgHeight + legendHeight;
-
-	  clonedSvg.setAttribute("width", String(svgWidth));
-	  clonedSvg.setAttribute("height", String(totalHeight));
-	  clonedSvg.setAttribute("viewBox", `0 0 ${svgWidth} ${totalHeight}`);
-
-	  const NS = "http://www.w3.org/2000/svg";
-
-	  const bgRect = document.createElementNS(NS, "rect");
-	  bgRect.setAttribute("x", "0");
-	  bgRect.setAttribute("y", "0");
-	  bgRect.setAttribute("width", String(svgWidth));
-	  bgRect.setAttribute("height", String(totalHeight));
-	  bgRect.setAttribute("fill", exportBg);
-	  clonedSvg.insertBefore(bgRect, clonedSvg.firstChild);
-
-	  const legendGroup = document.createElementNS(NS, "g");
-	  legendGroup.setAttribute("transform", `translate(0, ${svgHeight})`);
-
-	  const divider = document.createElementNS(NS, "line");
-	  divider.setAttribute("x1", "0");
-	  divider.setAttribute("y1", "0");
-	  divider.setAttribute("x2", String(svgWidth));
-	  divider.setAttribute("y2", "0");
-	  divider.setAttribute("stroke", exportBorder);
-	  legendGroup.appendChild(divider);
-
-	  let currentY = legendPadding + 6;
-
-	  if (room) {
-	    const titleMain = `Room: ${room}`;
-	    const titleStatus = statusFilter || "All";
-
-	    const roomText = document.createElementNS(NS, "text");
-	    roomText.setAttribute("x", String(legendPadding));
-	    roomText.setAttribute("y", String(currentY + 14));
-	    roomText.setAttribute("font-size", "16");
-	    roomText.setAttribute("font-weight", "600");
-	    roomText.setAttribute("fill", exportText);
-
-	    // Main text (Room)
-	    const tspanMain = document.createElementNS(NS, "tspan");
-	    tspanMain.textContent = titleMain;
-
-	    // Muted status
-	    const tspanStatus = document.createElementNS(NS, "tspan");
-	    tspanStatus.textContent = ` — ${titleStatus}`;
-	    tspanStatus.setAttribute(
-		  "fill",
-	  	  theme === "dark" ? "#a1a1aa" : "#6b7280"
-	    );
-
-	    roomText.appendChild(tspanMain);
-  	    roomText.appendChild(tspanStatus);
-
-	    legendGroup.appendChild(roomText);
-	    currentY += roomTitleH;
-	  }
+  //"validation-Fall-2026" for "Fall 2026.xlsx"
+  function reportBaseName() {
+    const base = sanitizeFilename(fileName.replace(/\.[^.]+$/, ""));
+    return base ? `validation-${base}` : "validation-report";
+  }
 
-	  const usableWidth = svgWidth - legendPadding * 2;
-	  const itemWidth = usableWidth / legendCols;
-
-	  legendItems.forEach((name, idx) => {
-		const col = idx % legendCols;
-		const row = Math.floor(idx / legendCols);
-
-		const itemX = legendPadding + col * itemWidth;
-		const itemY = currentY + row * legendItemH;
-
-		const swatch = document.createElementNS(NS, "rect");
-		swatch.setAttribute("x", String(itemX));
-		swatch.setAttribute("y", String(itemY));
-		swatch.setAttribute("width", "12");
-		swatch.setAttribute("height", "12");
-		swatch.setAttribute("rx", "3");
-		swatch.setAttribute("ry", "3");
-		swatch.setAttribute("fill", colorByInstructor.get(name) || "#94a3b8");
-		legendGroup.appendChild(swatch);
-
-		const label = document.createElementNS(NS, "text");
-		label.setAttribute("x", String(itemX + 18));
-		label.setAttribute("y", String(itemY + 10));
-		label.setAttribute("font-size", "12");
-		label.setAttribute("fill", exportText);
-		label.textContent = name;
-		legendGroup.appendChild(label);
-	  });
+  //Same base name for every format, e.g. "room-EABB-113-Scheduled"
+  function exportBaseName() {
+    const safeFilters = sanitizeFilename(filterFileLabel(rowFilters));
+    if (viewMode === "rooms") {
+      return `rooms-${sanitizeFilename(WEEKDAY_LABELS[multiRoomDay])}-${safeFilters}`;
+    }
+    if (viewMode === "instructor") {
+      return `instructor-${sanitizeFilename(instructor || "schedule")}-${safeFilters}`;
+    }
+    return `room-${sanitizeFilename(room || "schedule")}-${safeFilters}`;
+  }
 
-	  clonedSvg.appendChild(legendGroup);
+  //The on-screen grid with its title and legend, as a standalone SVG
+  function composeCurrentView(): ComposedSvg | null {
+    const svg = document.getElementById("schedule-svg") as SVGSVGElement | null;
+    if (!svg) return null;
+
+    const exportTitle =
+      viewMode === "rooms"
+        ? `${dayLabels[multiRoomDay]}: ${multiRooms.length} room${multiRooms.length === 1 ? "" : "s"}`
+        : viewMode === "instructor"
+        ? instructor ? `Instructor: ${instructor}` : ""
+        : room
+        ? `Room: ${room}`
+        : "";
+
+    return composeExportSvg(svg, {
+      title: exportTitle,
+      filterLabel,
+      legendItems,
+      legendColors,
+      theme,
+    });
+  }
 
-	  const svgString = new XMLSerializer().serializeToString(clonedSvg);
-	  const blob = new Blob([svgString], {
-		type: "image/svg+xml;charset=utf-8",
-	  });
-	  const url = URL.createObjectURL(blob);
-
-	  const img = new Image();
-	  img.onload = () => {
-		const scale = 2;
-		const canvas = document.createElement("canvas");
-		canvas.width = svgWidth * scale;
-		canvas.height = totalHeight * scale;
-
-		const ctx = canvas.getContext("2d");
-		if (!ctx) {
-		  URL.revokeObjectURL(url);
-		  return;
-		}
-
-		ctx.scale(scale, scale);
-		ctx.fillStyle = exportBg;
-		ctx.fillRect(0, 0, svgWidth, totalHeight);
-		ctx.drawImage(img, 0, 0);
-
-		const a = document.createElement("a");
-		a.href = canvas.toDataURL("image/png");
-		const safeRoom = sanitizeFilename(room || "schedule");
-		const safeStatus = sanitizeFilename(statusFilter || "All");
-
-		a.download = `room-${safeRoom}-${safeStatus}.png`;
-		a.click();
-
-		URL.revokeObjectURL(url);
-	  };
-
-	  img.onerror = () => {
-		URL.revokeObjectURL(url);
-	  };
-
-	  img.src = url;
-	}
+  async function downloadPNG() {
+    const composed = composeCurrentView();
+    if (composed) await downloadPng(composed, `${exportBaseName()}.png`);
+  }
+
+  function downloadSVG() {
+    const composed = composeCurrentView();
+    if (composed) downloadSvg(composed, `${exportBaseName()}.svg`);
+  }
+
+  //One room's week for a batch export; PDF pages carry the title above the grid instead
+  function renderRoomPage(pageRoom: string, batchFormat: BatchFormat, generatedAt: Date): SchedulePage | null {
+    const roomSessions = buildSessions(
+      rows,
+      r => rowMatchesView(r, [pageRoom], null, rowFilters),
+      crossListGroups,
+      activeWeekStart,
+      academicCalendar
+    );
+    if (!roomSessions.length) return null;
+
+    const terms = distinct(roomSessions.map(s => s.term).filter(Boolean));
+    return {
+      title: `Room ${pageRoom}`,
+      details: [
+        `Term: ${terms.length ? terms.join(", ") : "—"}`,
+        `Filters: ${filterLabel}`,
+        activeWeekStart ? `Week of ${format(activeWeekStart, "MMM d, yyyy")}` : "Weekly pattern",
+        `Generated ${format(generatedAt, "MMM d, yyyy h:mm a")}`,
+      ],
+      schedule: renderRoomSchedule({
+        room: pageRoom,
+        sessions: roomSessions,
+        columnLabels: dayLabels,
+        columnNotes: dayNotes,
+        minHour,
+        maxHour,
+        width: 1100,
+        //PDFs are meant for printing; images match the on-screen export
+        theme: batchFormat === "pdf" ? "light" : theme,
+        filterLabel,
+        colorBy,
+        colorOverrides,
+        withTitle: batchFormat !== "pdf",
+      }),
+    };
+  }
+
+  async function exportAllRooms(
+    batchFormat: BatchFormat,
+    onProgress: (done: number, total: number) => void,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const generatedAt = new Date();
+    const safeFilters = sanitizeFilename(filterFileLabel(rowFilters));
+
+    const blob = await exportRooms({
+      rooms,
+      format: batchFormat,
+      renderRoom: r => renderRoomPage(r, batchFormat, generatedAt),
+      fileBaseFor: r => `room-${sanitizeFilename(r)}-${safeFilters}`,
+      onProgress,
+      signal,
+    });
+    if (!blob) return false;
+
+    downloadBlob(blob, `rooms-${safeFilters}.${batchFormat === "pdf" ? "pdf" : "zip"}`);
+    return true;
+  }
+
+  //Recurring events for the chosen scope; all rooms become one calendar per room in a zip
+  function downloadCalendar(scope: IcsScope, calendarInstructor: string): number {
+    const safeFilters = sanitizeFilename(filterFileLabel(rowFilters));
+    const icsBlob = (ics: string) => new Blob([ics], { type: "text/calendar;charset=utf-8" });
+
+    if (scope === "rooms") {
+      const files: Record<string, Uint8Array> = {};
+      let total = 0;
+      for (const r of rooms) {
+        const { ics, eventCount } = buildIcsCalendar(
+          rows.filter(row => rowMatchesView(row, [r], null, rowFilters)),
+          academicCalendar,
+          `Room ${r}`
+        );
+        if (!eventCount) continue;
+        total += eventCount;
+        let name = `room-${sanitizeFilename(r)}-${safeFilters}.ics`;
+        for (let n = 2; name in files; n++) name = `room-${sanitizeFilename(r)}-${safeFilters}-${n}.ics`;
+        files[name] = strToU8(ics);
+      }
+      if (total) {
+        downloadBlob(new Blob([zipSync(files)], { type: "application/zip" }), `rooms-${safeFilters}-calendars.zip`);
+      }
+      return total;
+    }
+
+    const [matching, name, base] =
+      scope === "instructor"
+        ? [
+            rows.filter(row => rowMatchesView(row, null, calendarInstructor, rowFilters)),
+            calendarInstructor,
+            `instructor-${sanitizeFilename(calendarInstructor)}`,
+          ]
+        : [
+            rows.filter(row => rowMatchesView(row, [room], null, rowFilters)),
+            `Room ${room}`,
+            `room-${sanitizeFilename(room)}`,
+          ];
+
+    const { ics, eventCount } = buildIcsCalendar(matching, academicCalendar, name);
+    if (eventCount) downloadBlob(icsBlob(ics), `${base}-${safeFilters}.ics`);
+    return eventCount;
+  }
   
-	
-	function getTooltipSessionKey(session: SessionInstance) {
-	  return [
-		session.baseCourse,
-		session.instructor,
-		session.room,
-		session.date.getTime(),
-		session.start.getTime(),
-		session.end.getTime(),
-		session.courseOfferingIds.join(","),
-	  ].join("|");
-	}
   
   //Show tooltup on click
 	function toggleTooltip(
 	  e: React.MouseEvent<SVGGElement, MouseEvent>,
 	  session: SessionInstance
 	) {
-	  const clickedKey = getTooltipSessionKey(session);
-	  const currentKey = tooltip.session ? getTooltipSessionKey(tooltip.session) : null;
+	  if (drag.isClickSuppressed()) return;
+	  const clickedKey = getSessionKey(session);
+	  const currentKey = tooltip.session ? getSessionKey(tooltip.session) : null;
 
 	  if (tooltip.visible && currentKey === clickedKey) {
 		setTooltip({
@@ -675,67 +1003,62 @@ export default function RoomScheduleVisualizer({
   }
 
 
-  // ---- Layout constants ----
-  const gutter = 8;
-  const hourHeight = 50; // px per hour
-  const headerH = 32;
-  const labelW = 80; // y-axis label width
-  const minColWidth = 140;
-
-  const availableGraphWidth = Math.max(
-    0,
-    containerWidth - labelW - gutter * 2 - gutter * (dateColumns.length - 1)
+  //Kept between renders so a drag's pointer moves do not lay the grid out again
+  const layout = useMemo(
+    () =>
+      layoutSchedule({
+        sessions,
+        ghostSessions,
+        dateColumns,
+        columnKeyFor,
+        containerWidth,
+        effectiveMin,
+        effectiveMax,
+      }),
+    [sessions, ghostSessions, dateColumns, columnKeyFor, containerWidth, effectiveMin, effectiveMax]
   );
+  const {
+    width,
+    height,
+    hourTicks,
+    hourHeight,
+    headerH,
+    gutter,
+    labelW,
+    colWidth,
+    lanesByDate,
+    ghostsByDate,
+    yFor,
+  } = layout;
+
+  //Columns are days, except side by side where they are rooms and the day stays fixed
+  function dropSession(session: SessionInstance, target: DropTarget) {
+    const edit: BlockEdit = {
+      rowIndices: session.rowIndices,
+      fromDay: session.dayCode,
+      toDay: viewMode === "rooms" ? session.dayCode : target.column,
+      room: viewMode === "rooms" && target.column !== session.room ? target.column : undefined,
+      startMinutes: target.startMinutes,
+      endMinutes: target.endMinutes,
+    };
 
-  const colWidth =
-    dateColumns.length > 0
-      ? Math.max(minColWidth, Math.floor(availableGraphWidth / dateColumns.length))
-      : minColWidth;
-
-  function yFor(date: Date) {
-    const minutes = (date.getHours() - effectiveMin) * 60 + date.getMinutes();
-    return headerH + gutter + (minutes / 60) * hourHeight;
+    const result = applyBlockEdit(rows, edit);
+    setEditMessage(result.error ?? "");
+    if (!result.error) rowHistory.commit(result.rows);
   }
 
-  // Build hour ticks
-  const hourTicks: number[] = [];
-  for (let h = effectiveMin; h <= effectiveMax; h++) hourTicks.push(h);
-  
-  //Layout const with hour ticks
-  const contentWidth = labelW + gutter + dateColumns.length * colWidth + (dateColumns.length - 1) * gutter + gutter;
-  const width = Math.max(containerWidth, contentWidth);
-  const height = headerH + (hourTicks[hourTicks.length - 1] - effectiveMin) * hourHeight + gutter * 2;
-
-  // Group sessions by date string for collision handling
-  const byDate = new Map<string, SessionInstance[]>();
-  for (const day of dateColumns) {
-	byDate.set(day, []);
-  }
-  for (const s of sessions) {
-    const key = s.dayCode;
-    if (!byDate.has(key)) byDate.set(key, []);
-    byDate.get(key)!.push(s);
-  }
+  const drag = useBlockDrag({ layout, step: editSnap, columnKeyFor, onDrop: dropSession });
 
-  // Within each date, handle overlaps by simple lane assignment
-  type Placed = SessionInstance & { lane: number; lanes: number };
-
-  const lanesByDate = new Map<string, Placed[]>();
-
-  for (const [d, list] of byDate.entries()) {
-    const items = [...list].sort((a, b) => a.start.getTime() - b.start.getTime());
-    const lanes: Date[] = []; // end time per lane
-    const placed: Placed[] = [];
-    for (const it of items) {
-      let lane = lanes.findIndex(end => end.getTime() <= it.start.getTime());
-      if (lane === -1) { lane = lanes.length; lanes.push(it.end); } else { lanes[lane] = it.end; }
-      placed.push({ ...it, lane, lanes: 0 });
-    }
-    const total = Math.max(1, lanes.length);
-    for (const p of placed) p.lanes = total;
-    lanesByDate.set(d, placed);
+  function downloadEditedFile() {
+    if (!importLayout) return;
+    const base = sanitizeFilename(fileName.replace(/\.[^.]+$/, "")) || "schedule";
+    downloadEditedWorkbook(rows, importLayout, `${base}-edited.xlsx`, { changeLog: includeChangeLog });
   }
 
+  //Room capacity for the tooltip's utilisation line
+  const tooltipCapacity = tooltip.session
+    ? inventoryByRoom.get(tooltip.session.room)?.capacity ?? null
+    : null;
 
   return (
     <div className="h-full w-full flex flex-col bg-background text-foreground">
@@ -762,13 +1085,53 @@ export default function RoomScheduleVisualizer({
           >
             Validation
           </button>
+          <button
+            className={`px-4 py-2 rounded-md border text-sm transition-colors ${
+              activeTab === "data"
+                ? "bg-blue-600 text-white border-blue-600"
+                : "bg-background text-foreground hover:bg-muted"
+            }`}
+            onClick={() => setActiveTab("data")}
+          >
+            Data
+          </button>
+          {comparison && (
+            <button
+              className={`px-4 py-2 rounded-md border text-sm transition-colors ${
+                activeTab === "compare"
+                  ? "bg-blue-600 text-white border-blue-600"
+                  : "bg-background text-foreground hover:bg-muted"
+              }`}
+              onClick={() => setActiveTab("compare")}
+            >
+              Compare
+            </button>
+          )}
         </div>
 
         <UploadControls
           fileRef={fileRef}
           onFileChange={onFileChange}
           onUploadClick={() => fileRef.current?.click()}
+          compareFileRef={compareFileRef}
+          onCompareFileChange={onCompareFileChange}
+          onCompareUploadClick={() => compareFileRef.current?.click()}
+          comparisonName={comparison?.fileName ?? ""}
+          onClearComparison={() => {
+            setComparison(null);
+            if (activeTab === "compare") setActiveTab("schedule");
+          }}
           onDownloadPng={downloadPNG}
+          onDownloadSvg={downloadSVG}
+          onExportAllRooms={() => setShowBatchExport(v => !v)}
+          onExportCalendar={() => setShowIcsExport(v => !v)}
+          onShowRecentFiles={() => setShowRecentFiles(v => !v)}
+          recentFilesLength={recentFiles.length}
+          roomsLength={rooms.length}
+          viewMode={viewMode}
+          instructor={instructor}
+          instructors={instructors}
+          setInstructor={setInstructor}
           sessionsLength={sessions.length}
           room={room}
           rooms={rooms}
@@ -779,68 +1142,376 @@ export default function RoomScheduleVisualizer({
           setMaxHour={setMaxHour}
           autoMinHour={autoMinHour}
           autoMaxHour={autoMaxHour}
-		  statusFilter={statusFilter}
-		  setStatusFilter={setStatusFilter}
         />
 
+        {savedDataError && (
+          <div className="flex items-start gap-2 rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-600 dark:text-red-400">
+            <span className="flex-1">{savedDataError}</span>
+            <button
+              type="button"
+              onClick={onDismissSavedDataError}
+              className="rounded p-0.5 hover:bg-muted"
+              aria-label="Dismiss saved data error"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+
+        {showRecentFiles && (
+          <RecentFilesPanel
+            recentFiles={recentFiles}
+            currentFileName={fileName}
+            onOpen={onOpenRecentFile}
+            onRemove={onRemoveRecentFile}
+            onClear={onClearSavedData}
+          />
+        )}
+
+        {pendingImport && (
+          <SheetPicker
+            fileName={pendingImport.fileName}
+            sheets={pendingImport.sheets}
+            onLoad={(sheets) => loadTables(sheets, pendingImport.fileName, pendingImport.target)}
+            onCancel={() => setPendingImport(null)}
+          />
+        )}
+
+        {pendingMapping && (
+          <ColumnMappingWizard
+            key={pendingMapping.headers.join("|")}
+            headers={pendingMapping.headers}
+            initialMapping={pendingMapping.mapping}
+            scores={pendingMapping.scores}
+            profiles={mappingProfiles}
+            onApply={applyMapping}
+            onDeleteProfile={(name) => setMappingProfiles(deleteMappingProfile(name))}
+            onCancel={() => setPendingMapping(null)}
+          />
+        )}
+
         {activeTab === "schedule" && (
           <>
-            {visibleInstructors.length > 0 && (
-              <div className="flex flex-wrap gap-3 items-center">
-                <span className="text-sm text-muted-foreground">
-                  Instructors in this room:
+            {rows.length > 0 && (
+              <FilterBar
+                filters={rowFilters}
+                setFilters={setRowFilters}
+                options={filterOptions}
+                matchingRows={matchingRowCount}
+                totalRows={rows.length}
+              />
+            )}
+
+            {rows.length > 0 && (
+              <ColorLegend
+                colorBy={colorBy}
+                setColorBy={setColorBy}
+                shownBy={colorDimension}
+                items={legendItems}
+                colors={legendColors}
+                overrides={colorOverrides[colorDimension] ?? {}}
+                onOverride={overrideColor}
+                onResetOverrides={resetColorOverrides}
+              />
+            )}
+
+            {tightTransfers.length > 0 && (
+              <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-2 text-sm text-red-700 dark:text-red-300">
+                <div className="font-medium">
+                  Back-to-back classes in different buildings (≤ {BACK_TO_BACK_MINUTES} min apart):
+                </div>
+                <ul className="list-disc pl-6">
+                  {tightTransfers.map((t, idx) => (
+                    <li key={idx}>
+                      {activeWeekStart ? format(t.from.date, "EEE M/d") : WEEKDAY_LABELS[t.from.dayCode]}:{" "}
+                      {t.from.baseCourse} in {t.from.room} ends {format(t.from.end, "h:mm a")},{" "}
+                      {t.to.baseCourse} in {t.to.room} starts {format(t.to.start, "h:mm a")}{" "}
+                      ({t.gapMinutes} min)
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-2">
+              <ViewModeSwitch viewMode={viewMode} setViewMode={changeViewMode} />
+              <WeekNavigator
+                dateMode={dateMode}
+                setDateMode={setDateMode}
+                weekStart={activeWeekStart ?? getWeekStart(termStart ?? new Date())}
+                setWeekStart={setWeekStart}
+                termStart={termStart}
+              />
+              <button
+                type="button"
+                className="ml-auto rounded-md border px-3 py-1 text-sm hover:bg-muted transition-colors"
+                onClick={() => setShowFreeSlotFinder(v => !v)}
+              >
+                Find a free room
+              </button>
+              <button
+                type="button"
+                className="rounded-md border px-3 py-1 text-sm hover:bg-muted transition-colors"
+                onClick={() => setShowCalendarPanel(v => !v)}
+              >
+                Academic calendar{academicCalendar.length ? ` (${academicCalendar.length})` : ""}
+              </button>
+              <button
+                type="button"
+                className="rounded-md border px-3 py-1 text-sm hover:bg-muted transition-colors"
+                onClick={() => setShowInventoryPanel(v => !v)}
+              >
+                Room inventory{roomInventory.length ? ` (${roomInventory.length})` : ""}
+              </button>
+            </div>
+
+            {rows.length > 0 && (
+              <EditToolbar
+                editMode={editMode}
+                setEditMode={setEditMode}
+                snap={editSnap}
+                setSnap={setEditSnap}
+                canUndo={rowHistory.canUndo}
+                canRedo={rowHistory.canRedo}
+                onUndo={rowHistory.undo}
+                onRedo={rowHistory.redo}
+                editCount={rowHistory.editCount}
+                canDownload={rows.length > 0 && importLayout !== null}
+                onDownload={downloadEditedFile}
+                includeChangeLog={includeChangeLog}
+                setIncludeChangeLog={setIncludeChangeLog}
+                message={editMessage}
+              />
+            )}
+
+            {viewMode === "rooms" && (
+              <MultiRoomControls
+                rooms={rooms}
+                selectedRooms={multiRooms}
+                setSelectedRooms={setMultiRooms}
+                day={multiRoomDay}
+                setDay={setMultiRoomDay}
+                dayLabels={dayLabels}
+              />
+            )}
+
+            {showBatchExport && (
+              <BatchExportPanel
+                roomCount={rooms.length}
+                filterLabel={filterLabel}
+                onExport={exportAllRooms}
+              />
+            )}
+
+            {showIcsExport && (
+              <IcsExportPanel
+                room={room}
+                instructors={instructors}
+                defaultInstructor={instructor || instructors[0] || ""}
+                filterLabel={filterLabel}
+                onDownload={downloadCalendar}
+              />
+            )}
+
+            {showFreeSlotFinder && (
+              <FreeSlotFinder
+                rows={rows}
+                calendar={academicCalendar}
+                inventory={roomInventory}
+                termStart={termStart}
+                termEnd={termEnd}
+                onSelect={openFreeSlot}
+              />
+            )}
+
+            {highlight && highlightSlot && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="inline-block w-3 h-3 rounded border-2 border-dashed border-blue-600 bg-blue-600/20" />
+                <span>
+                  Requested slot: {highlightSlot.days.map(d => WEEKDAY_LABELS[d]).join(", ")}{" "}
+                  {format(highlight.start, "h:mm a")}–{format(highlight.end, "h:mm a")}
+                </span>
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 dark:text-blue-400 underline"
+                  onClick={() => setHighlightSlot(null)}
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+
+            {activeIssue && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="inline-block w-3 h-3 rounded border-2 border-blue-600" />
+                <span>Highlighting: {activeIssue.message}</span>
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 dark:text-blue-400 underline"
+                  onClick={() => setSelectedIssue(null)}
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+
+            {!activeIssue && activeTableRow !== null && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span className="inline-block w-3 h-3 rounded border-2 border-blue-600" />
+                <span>
+                  Highlighting: {rows[activeTableRow].courseSection || "row"} ({describeRowSource(rows[activeTableRow], activeTableRow)})
+                </span>
+                <button
+                  type="button"
+                  className="text-xs text-blue-600 dark:text-blue-400 underline"
+                  onClick={() => setSelectedTableRow(null)}
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+
+            {showInventoryPanel && (
+              <RoomInventoryPanel
+                inventory={roomInventory}
+                setInventory={setRoomInventory}
+              />
+            )}
+
+            {showCalendarPanel && (
+              <AcademicCalendarPanel
+                calendar={academicCalendar}
+                setCalendar={setAcademicCalendar}
+              />
+            )}
+
+            {comparison && (
+              <div className="flex flex-wrap gap-3 items-center text-sm">
+                <span className="text-muted-foreground">
+                  Compared with {comparison.fileName}:
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="inline-block w-3 h-3 rounded border-2 border-dashed border-green-600" />
+                  Added
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="inline-block w-3 h-3 rounded border-2 border-dashed border-amber-500" />
+                  Changed
+                </span>
+                <span className="flex items-center gap-2">
+                  <span className="inline-block w-3 h-3 rounded border-2 border-dashed border-red-500" />
+                  Previous position (removed or changed)
                 </span>
-                {visibleInstructors.map((name) => (
-                  <div key={name} className="flex items-center gap-2 text-sm">
-                    <span
-                      className="inline-block w-3 h-3 rounded"
-                      style={{ background: colorByInstructor.get(name) }}
-                    />
-                    <span>{name || "Unknown"}</span>
-                  </div>
-                ))}
               </div>
             )}
 
             {!rows.length && (
               <div className="text-sm text-muted-foreground flex flex-wrap items-center gap-2">
                 <CalendarIcon className="w-4 h-4" />
-                Upload your .xlsx file to begin, or download the sample file to see the correct format.
+                Upload your .xlsx, .csv or .tsv file to begin, or download the sample file to see the correct format.
               </div>
             )}
 
             <p className="text-xs text-muted-foreground">
               Tip: We auto-detect days like M, T, W, R (Thu), F, S, U and also parse
-              Th/Tu/Sa/Su. Schedules are rendered in a weekly Monday–Sunday layout
-              using valid schedule data, while the tooltip keeps the original term
-              date range.
+              Th/Tu/Sa/Su. The weekly pattern view folds every term onto one
+              Sunday–Saturday layout; switch to Calendar week to see only the sessions
+              whose term dates actually cover a specific week.
             </p>
           </>
         )}
 
+        {activeTab === "compare" && scheduleDiff && comparison && (
+          <DiffPanel
+            diff={scheduleDiff}
+            baselineLabel={comparison.fileName}
+            currentLabel={fileName || "the loaded file"}
+            onOpenRoom={openRoom}
+          />
+        )}
+
+        {activeTab === "validation" && (
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-sm hover:bg-muted"
+              onClick={() => setShowRulesPanel(v => !v)}
+            >
+              Validation rules ({VALIDATION_RULES.filter(rule => validationRules[rule.id].enabled).length} of {VALIDATION_RULES.length} on)
+            </button>
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-sm hover:bg-muted disabled:opacity-50"
+              disabled={validationIssues.length === 0}
+              onClick={() => downloadValidationWorkbook(validationIssues, rows, `${reportBaseName()}.xlsx`)}
+            >
+              Export report (XLSX)
+            </button>
+            <button
+              type="button"
+              className="rounded-md border px-3 py-1 text-sm hover:bg-muted disabled:opacity-50"
+              disabled={validationIssues.length === 0}
+              onClick={() => downloadValidationCsv(validationIssues, rows, `${reportBaseName()}.csv`)}
+            >
+              Export report (CSV)
+            </button>
+          </div>
+        )}
+
+        {activeTab === "validation" && showRulesPanel && (
+          <ValidationRulesPanel config={validationRules} setConfig={setValidationRules} />
+        )}
+
         {activeTab === "validation" && (
           <ValidationPanel
-            errors={validationResults.errors}
-            infos={validationResults.infos}
+            issues={validationIssues}
+            checking={checkingValidation}
+            onSelectIssue={openIssue}
             detectedHeaders={detectedHeaders}
           />
         )}
       </div>
 
+    {activeTab === "data" && (
+      <div className="flex-1 min-h-0 px-4 pb-4">
+        <RowTable
+          rows={rows}
+          selectedRowIndex={activeTableRow}
+          onSelectRow={selectTableRow}
+          onEditCell={editCell}
+          onShowOnSchedule={showRowOnSchedule}
+          canUndo={rowHistory.canUndo}
+          canRedo={rowHistory.canRedo}
+          onUndo={rowHistory.undo}
+          onRedo={rowHistory.redo}
+        />
+      </div>
+    )}
+
     {activeTab === "schedule" && (
       <div className="flex-1 min-h-0 px-4 pb-4">
         <div
 		  ref={graphContainerRef}
 		  className="h-full w-full overflow-auto rounded-2xl border bg-card text-card-foreground shadow-sm"
 		>
-          {sessions.length === 0 ? (
+          {sessions.length === 0 && ghostSessions.length === 0 && !highlight ? (
 			<div className="text-center space-y-2 p-6">
 			  <div className="text-lg font-medium">
 				No sessions found
 			  </div>
 			  <div className="text-sm text-muted-foreground">
-				{room
-				  ? `No "${statusFilter}" sessions found for room "${room}".`
+				{viewMode === "instructor"
+				  ? instructor
+				    ? `No "${filterLabel}" sessions found for instructor "${instructor}".`
+				    : "Select an instructor to see their week."
+				  : viewMode === "rooms"
+				  ? multiRooms.length
+				    ? `No "${filterLabel}" sessions in the selected rooms on ${dayLabels[multiRoomDay]}.`
+				    : "Select rooms or a building to compare them side by side."
+				  : activeWeekStart
+				  ? `No "${filterLabel}" sessions${room ? ` for room "${room}"` : ""} meet in the week of ${format(activeWeekStart, "MMM d, yyyy")}.`
+				  : room
+				  ? `No "${filterLabel}" sessions found for room "${room}".`
 				  : `No sessions match the current filter.`}
 			  </div>
 			</div>
@@ -849,6 +1520,8 @@ export default function RoomScheduleVisualizer({
 			  width={width}
 			  height={height}
 			  dateColumns={dateColumns}
+			  columnLabels={columnLabels}
+			  columnNotes={columnNotes}
 			  hourTicks={hourTicks}
 			  effectiveMin={effectiveMin}
 			  hourHeight={hourHeight}
@@ -858,11 +1531,18 @@ export default function RoomScheduleVisualizer({
 			  colWidth={colWidth}
 			  lanesByDate={lanesByDate}
 			  yFor={yFor}
-			  colorByInstructor={colorByInstructor}
+			  getBlockColor={getBlockColor}
+			  flaggedSessionKeys={flaggedSessionKeys}
 			  theme={theme}
 			  hoveredGroupKey={hoveredGroupKey}
 			  setHoveredGroupKey={setHoveredGroupKey}
 			  toggleTooltip={toggleTooltip}
+			  diffKindByOfferingId={scheduleDiff?.kindByOfferingId}
+			  ghostsByDate={ghostsByDate}
+			  highlightSlot={highlight}
+			  selectedRowIndices={selectedRowIndices}
+			  onBlockPointerDown={editMode ? drag.beginDrag : undefined}
+			  dragPreview={drag.preview}
 			/>
 		  )}
         </div>
@@ -886,6 +1566,17 @@ export default function RoomScheduleVisualizer({
         <div className="space-y-1">
           <div><strong>Instructor:</strong> {tooltip.session.instructor}</div>
           <div><strong>Days Met:</strong> {tooltip.session.daysMet || "—"}</div>
+          {activeWeekStart && (
+            <div><strong>Date:</strong> {format(tooltip.session.date, "EEE M/d/yyyy")}</div>
+          )}
+          {tooltip.session.closedReason && (
+            <div className="text-red-600 dark:text-red-400">
+              <strong>Does not meet:</strong> {tooltip.session.closedReason}
+            </div>
+          )}
+          {tooltip.session.makeupFor && (
+            <div><strong>Makeup day:</strong> {tooltip.session.makeupFor}</div>
+          )}
           <div>
             <strong>Date Range:</strong>{" "}
             {formatDisplayDate(tooltip.session.startDate)} to {formatDisplayDate(tooltip.session.endDate)}
@@ -894,8 +1585,28 @@ export default function RoomScheduleVisualizer({
             <strong>Time:</strong> {format(tooltip.session.start, "h:mm a")}–{format(tooltip.session.end, "h:mm a")}
           </div>
           <div><strong>Room:</strong> {tooltip.session.room || "—"}</div>
+          {tooltip.session.maxEnrollment !== null && (
+            tooltipCapacity ? (
+              <div className={tooltip.session.maxEnrollment > tooltipCapacity ? "text-red-600 dark:text-red-400" : undefined}>
+                <strong>Seats:</strong> {tooltip.session.maxEnrollment} of {tooltipCapacity} (
+                {Math.round((tooltip.session.maxEnrollment / tooltipCapacity) * 100)}% of capacity)
+              </div>
+            ) : (
+              <div><strong>Max Enrollment:</strong> {tooltip.session.maxEnrollment}</div>
+            )
+          )}
+          {tooltip.session.requiredFeatures.length > 0 && (
+            <div>
+              <strong>Needs:</strong> {tooltip.session.requiredFeatures.join(", ")}
+            </div>
+          )}
           <div><strong>Term:</strong> {tooltip.session.term || "—"}</div>
           <div><strong>Status:</strong> {tooltip.session.status || "—"}</div>
+          {tooltip.session.sourceSheets.length > 0 && (
+            <div>
+              <strong>Sheet:</strong> {tooltip.session.sourceSheets.join(", ")}
+            </div>
+          )}
           <div>
             <strong>Course Offering Ids:</strong>{" "}
             {tooltip.session.courseOfferingIds.length
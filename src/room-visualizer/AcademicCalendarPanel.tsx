@@ -0,0 +1,227 @@
+import { useRef, useState } from "react";
+import { CalendarOff, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { parseCalendarRecords } from "./academicCalendar";
+import { readTabularFile } from "./importers";
+import type { CalendarEntry, CalendarEntryType } from "./types";
+import { WEEKDAY_COLUMNS, WEEKDAY_LABELS } from "./utils";
+
+type AcademicCalendarPanelProps = {
+  calendar: CalendarEntry[];
+  setCalendar: (calendar: CalendarEntry[]) => void;
+};
+
+const TYPE_LABELS: Record<CalendarEntryType, string> = {
+  holiday: "Holiday",
+  break: "Break",
+  makeup: "Makeup day",
+};
+
+export default function AcademicCalendarPanel({
+  calendar,
+  setCalendar,
+}: AcademicCalendarPanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [draft, setDraft] = useState<CalendarEntry>({
+    type: "holiday",
+    label: "",
+    startDate: "",
+    endDate: "",
+  });
+
+  async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const [table] = await readTabularFile(file);
+      const { entries, errors } = parseCalendarRecords(table?.records ?? []);
+      setCalendar(sortEntries([...calendar, ...entries]));
+      setErrors([...(table?.parseErrors ?? []), ...errors]);
+    } catch (err) {
+      setErrors([`Could not read "${file.name}": ${err instanceof Error ? err.message : String(err)}`]);
+    }
+  }
+
+  function addDraft() {
+    if (!draft.startDate) return;
+    if (draft.type === "makeup" && !draft.followsDay) return;
+
+    setCalendar(
+      sortEntries([
+        ...calendar,
+        {
+          ...draft,
+          label: draft.label.trim() || TYPE_LABELS[draft.type],
+          endDate: draft.endDate && draft.endDate >= draft.startDate ? draft.endDate : draft.startDate,
+          followsDay: draft.type === "makeup" ? draft.followsDay : undefined,
+        },
+      ])
+    );
+    setDraft({ type: draft.type, label: "", startDate: "", endDate: "" });
+  }
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <CalendarOff className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Academic calendar</h2>
+          <span className="text-sm text-muted-foreground">
+            Holidays and breaks cancel classes; makeup days follow another weekday's schedule.
+          </span>
+
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv,.tsv,.txt"
+            ref={fileRef}
+            onChange={onFileChange}
+            className="hidden"
+          />
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileRef.current?.click()}>
+              <Upload className="w-4 h-4" />
+              Import calendar
+            </Button>
+            {calendar.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setCalendar([])}>
+                Clear all
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="list-disc pl-6 text-sm text-red-700 dark:text-red-300">
+            {errors.map((msg, idx) => (
+              <li key={idx}>{msg}</li>
+            ))}
+          </ul>
+        )}
+
+        {calendar.length > 0 ? (
+          <ul className="divide-y rounded-md border text-sm">
+            {calendar.map((entry, idx) => (
+              <li key={idx} className="flex items-center gap-3 px-3 py-1.5">
+                <span className="w-24 text-muted-foreground">{TYPE_LABELS[entry.type]}</span>
+                <span className="w-52">
+                  {entry.startDate}
+                  {entry.endDate !== entry.startDate && ` → ${entry.endDate}`}
+                </span>
+                <span className="flex-1">
+                  {entry.label}
+                  {entry.followsDay && (
+                    <span className="text-muted-foreground">
+                      {" "}— follows {WEEKDAY_LABELS[entry.followsDay]} schedule
+                    </span>
+                  )}
+                </span>
+                <button
+                  type="button"
+                  className="rounded p-1 text-muted-foreground hover:bg-muted"
+                  aria-label={`Remove ${entry.label}`}
+                  onClick={() => setCalendar(calendar.filter((_, i) => i !== idx))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No calendar entries yet. Import a file with <code>Type</code>, <code>Label</code>,{" "}
+            <code>Start Date</code>, <code>End Date</code> and <code>Follows</code> columns, or add entries below.
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="w-36">
+            <label className="text-sm text-muted-foreground">Type</label>
+            <Select
+              value={draft.type}
+              onValueChange={(v) => setDraft({ ...draft, type: v as CalendarEntryType })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TYPE_LABELS) as CalendarEntryType[]).map((t) => (
+                  <SelectItem key={t} value={t}>
+                    {TYPE_LABELS[t]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="w-48">
+            <label className="text-sm text-muted-foreground">Label</label>
+            <Input
+              value={draft.label}
+              placeholder="e.g. Thanksgiving"
+              onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+            />
+          </div>
+          <div className="w-40">
+            <label className="text-sm text-muted-foreground">Start date</label>
+            <Input
+              type="date"
+              value={draft.startDate}
+              onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+            />
+          </div>
+          {draft.type !== "makeup" ? (
+            <div className="w-40">
+              <label className="text-sm text-muted-foreground">End date (optional)</label>
+              <Input
+                type="date"
+                value={draft.endDate}
+                onChange={(e) => setDraft({ ...draft, endDate: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div className="w-40">
+              <label className="text-sm text-muted-foreground">Follows</label>
+              <Select
+                value={draft.followsDay ?? ""}
+                onValueChange={(v) => setDraft({ ...draft, followsDay: v })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Weekday" />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEEKDAY_COLUMNS.map((d) => (
+                    <SelectItem key={d} value={d}>
+                      {WEEKDAY_LABELS[d]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <Button
+            size="sm"
+            onClick={addDraft}
+            disabled={!draft.startDate || (draft.type === "makeup" && !draft.followsDay)}
+          >
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function sortEntries(entries: CalendarEntry[]): CalendarEntry[] {
+  return [...entries].sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
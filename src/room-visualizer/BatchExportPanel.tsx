@@ -0,0 +1,105 @@
+import { useRef, useState } from "react";
+import { Archive } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { BATCH_FORMAT_LABELS, type BatchFormat } from "./batchExport";
+
+type BatchExportPanelProps = {
+  roomCount: number;
+  filterLabel: string;
+  //Resolves to false when no room had anything to export
+  onExport: (
+    format: BatchFormat,
+    onProgress: (done: number, total: number) => void,
+    signal: AbortSignal
+  ) => Promise<boolean>;
+};
+
+export default function BatchExportPanel({ roomCount, filterLabel, onExport }: BatchExportPanelProps) {
+  const [batchFormat, setBatchFormat] = useState<BatchFormat>("png");
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState("");
+  const controllerRef = useRef<AbortController | null>(null);
+
+  async function start() {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setMessage("");
+    setProgress({ done: 0, total: roomCount });
+
+    try {
+      const exported = await onExport(
+        batchFormat,
+        (done, total) => setProgress({ done, total }),
+        controller.signal
+      );
+      if (!exported) setMessage("No room has classes under the current filters.");
+    } catch (err) {
+      setMessage(
+        controller.signal.aborted
+          ? "Export cancelled."
+          : `Export failed: ${err instanceof Error ? err.message : String(err)}`
+      );
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  const percent = progress && progress.total ? Math.round((progress.done / progress.total) * 100) : 0;
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Archive className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Export all rooms</h2>
+          <span className="text-sm text-muted-foreground">
+            Every room's schedule ({filterLabel}), drawn off screen and downloaded in one file.
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="inline-flex rounded-md border p-0.5">
+            {(Object.keys(BATCH_FORMAT_LABELS) as BatchFormat[]).map((f) => (
+              <button
+                key={f}
+                type="button"
+                disabled={!!progress}
+                className={`rounded px-3 py-1 text-sm transition-colors ${
+                  batchFormat === f ? "bg-blue-600 text-white" : "hover:bg-muted"
+                }`}
+                onClick={() => setBatchFormat(f)}
+              >
+                {BATCH_FORMAT_LABELS[f]}
+              </button>
+            ))}
+          </div>
+
+          {progress ? (
+            <Button variant="outline" size="sm" onClick={() => controllerRef.current?.abort()}>
+              Cancel
+            </Button>
+          ) : (
+            <Button size="sm" onClick={start} disabled={roomCount === 0}>
+              Export {roomCount} room{roomCount === 1 ? "" : "s"}
+            </Button>
+          )}
+        </div>
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="h-2 w-full overflow-hidden rounded bg-muted">
+              <div className="h-full bg-blue-600 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="text-xs text-muted-foreground">
+              Rendered {progress.done} of {progress.total} rooms ({percent}%)
+            </div>
+          </div>
+        )}
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
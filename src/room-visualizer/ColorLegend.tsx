@@ -0,0 +1,84 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { COLOR_DIMENSIONS } from "./colorScheme";
+import type { ColorDimension } from "./types";
+
+type ColorLegendProps = {
+  colorBy: ColorDimension;
+  setColorBy: (value: ColorDimension) => void;
+  shownBy: ColorDimension; // differs from colorBy in the instructor view
+  items: string[];
+  colors: Map<string, string>;
+  overrides: Record<string, string>;
+  onOverride: (value: string, color: string) => void;
+  onResetOverrides: () => void;
+};
+
+export default function ColorLegend({
+  colorBy,
+  setColorBy,
+  shownBy,
+  items,
+  colors,
+  overrides,
+  onOverride,
+  onResetOverrides,
+}: ColorLegendProps) {
+  const shownLabel = COLOR_DIMENSIONS.find(d => d.value === shownBy)?.label ?? shownBy;
+
+  return (
+    <div className="flex flex-wrap gap-3 items-center">
+      <span className="text-sm text-muted-foreground">Color by</span>
+      <Select value={colorBy} onValueChange={(v) => setColorBy(v as ColorDimension)}>
+        <SelectTrigger className="h-8 w-36">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {COLOR_DIMENSIONS.map((d) => (
+            <SelectItem key={d.value} value={d.value}>
+              {d.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {shownBy !== colorBy && (
+        <span className="text-xs text-muted-foreground">({shownLabel.toLowerCase()}s in the instructor view)</span>
+      )}
+
+      {items.map((name) => (
+        <label
+          key={name}
+          className="flex items-center gap-2 text-sm cursor-pointer"
+          title={`Pick a color for ${name}`}
+        >
+          <span
+            className={`inline-block w-3 h-3 rounded ${overrides[name] ? "ring-1 ring-offset-1 ring-foreground" : ""}`}
+            style={{ background: colors.get(name) }}
+          />
+          <input
+            type="color"
+            className="sr-only"
+            value={colors.get(name) ?? "#94a3b8"}
+            onChange={(e) => onOverride(name, e.target.value)}
+          />
+          <span>{name}</span>
+        </label>
+      ))}
+
+      {items.some(name => overrides[name]) && (
+        <button
+          type="button"
+          className="text-xs text-blue-600 dark:text-blue-400 underline"
+          onClick={onResetOverrides}
+        >
+          Reset {shownLabel.toLowerCase()} colors
+        </button>
+      )}
+    </div>
+  );
+}
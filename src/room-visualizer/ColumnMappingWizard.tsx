@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Columns3 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ROW_FIELDS } from "./constants";
+import { findUnmappedFields } from "./columnMapping";
+import type { ColumnMapping, MappingProfile, RowField } from "./types";
+
+//Radix Select does not allow an empty string as an item value
+const NOT_MAPPED = "__not_mapped__";
+
+type ColumnMappingWizardProps = {
+  headers: string[];
+  initialMapping: ColumnMapping;
+  scores: Partial<Record<RowField, number>>;
+  profiles: MappingProfile[];
+  onApply: (mapping: ColumnMapping, profileName: string) => void;
+  onDeleteProfile: (name: string) => void;
+  onCancel: () => void;
+};
+
+export default function ColumnMappingWizard({
+  headers,
+  initialMapping,
+  scores,
+  profiles,
+  onApply,
+  onDeleteProfile,
+  onCancel,
+}: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [profileName, setProfileName] = useState("");
+
+  const unmapped = findUnmappedFields(mapping, headers);
+
+  function setField(field: RowField, header: string) {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (header === NOT_MAPPED) delete next[field];
+      else next[field] = header;
+      return next;
+    });
+  }
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Columns3 className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Map columns</h2>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Some required headers were not found. Choose which column holds each field.
+          Suggestions are based on how closely the header names match.
+        </p>
+
+        {profiles.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">Saved profiles:</span>
+            {profiles.map((p) => (
+              <span key={p.name} className="inline-flex items-center rounded-md border">
+                <button
+                  type="button"
+                  className="px-2 py-1 hover:bg-muted"
+                  onClick={() => {
+                    setMapping(p.mapping);
+                    setProfileName(p.name);
+                  }}
+                >
+                  {p.name}
+                </button>
+                <button
+                  type="button"
+                  className="border-l px-2 py-1 text-muted-foreground hover:bg-muted"
+                  aria-label={`Delete profile ${p.name}`}
+                  onClick={() => onDeleteProfile(p.name)}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+          {ROW_FIELDS.map(({ field, label, optional }) => {
+            const score = scores[field];
+            const value = mapping[field] && headers.includes(mapping[field]) ? mapping[field] : NOT_MAPPED;
+
+            return (
+              <div key={field}>
+                <label className="text-sm text-muted-foreground">
+                  {label}
+                  {optional && <span className="ml-1 text-xs">(optional)</span>}
+                  {value !== NOT_MAPPED && score !== undefined && score < 1 && value === initialMapping[field] && (
+                    <span className="ml-1 text-xs">
+                      (suggested, {Math.round(score * 100)}% match)
+                    </span>
+                  )}
+                </label>
+                <Select value={value} onValueChange={(v) => setField(field, v)}>
+                  <SelectTrigger className={value === NOT_MAPPED && !optional ? "border-red-500/60" : ""}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                    {headers.map((h) => (
+                      <SelectItem key={h} value={h}>
+                        {h}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+
+        {unmapped.length > 0 && (
+          <p className="text-sm text-red-600 dark:text-red-400">
+            Still unmapped: {unmapped.join(", ")}
+          </p>
+        )}
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="w-64">
+            <label className="text-sm text-muted-foreground">
+              Save as profile (optional)
+            </label>
+            <Input
+              value={profileName}
+              placeholder="e.g. Registrar nightly feed"
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+          </div>
+          <Button size="sm" onClick={() => onApply(mapping, profileName.trim())}>
+            {unmapped.length ? "Load anyway" : "Apply mapping"}
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
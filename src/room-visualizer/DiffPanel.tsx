@@ -0,0 +1,115 @@
+import type { ScheduleDiff, ScheduleDiffEntry } from "./diff";
+import type { Row } from "./types";
+
+type DiffPanelProps = {
+  diff: ScheduleDiff;
+  baselineLabel: string;
+  currentLabel: string;
+  onOpenRoom: (room: string) => void;
+};
+
+function describeRow(r?: Row): string {
+  if (!r) return "—";
+  return [r.courseSection, r.daysMet, r.room, r.instructor].filter(Boolean).join(" · ");
+}
+
+function EntryList({
+  entries,
+  onOpenRoom,
+}: {
+  entries: ScheduleDiffEntry[];
+  onOpenRoom: (room: string) => void;
+}) {
+  return (
+    <ul className="space-y-2 text-sm">
+      {entries.map((e, idx) => {
+        const room = e.after?.room || e.before?.room || "";
+        return (
+          <li key={`${e.offeringId}-${idx}`} className="flex flex-wrap items-baseline gap-x-2">
+            <span className="font-medium">{e.offeringId}</span>
+            <span>{describeRow(e.after ?? e.before)}</span>
+            {e.changes.length > 0 && (
+              <span className="text-muted-foreground">
+                {e.changes
+                  .map(c => `${c.label}: ${c.before || "—"} → ${c.after || "—"}`)
+                  .join("; ")}
+              </span>
+            )}
+            {room && (
+              <button
+                type="button"
+                className="text-blue-600 dark:text-blue-400 underline"
+                onClick={() => onOpenRoom(room)}
+              >
+                View room
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+export default function DiffPanel({
+  diff,
+  baselineLabel,
+  currentLabel,
+  onOpenRoom,
+}: DiffPanelProps) {
+  const added = diff.entries.filter(e => e.kind === "added");
+  const removed = diff.entries.filter(e => e.kind === "removed");
+  const changed = diff.entries.filter(e => e.kind === "changed");
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Comparing <strong>{currentLabel}</strong> against{" "}
+        <strong>{baselineLabel}</strong>, matched by Course Offering Id.
+        {diff.unmatchedRows > 0 &&
+          ` ${diff.unmatchedRows} row(s) without a Course Offering Id were skipped.`}
+      </p>
+
+      {diff.entries.length === 0 ? (
+        <div className="rounded-md border border-green-500/40 bg-green-500/10 px-4 py-3 text-sm font-medium text-green-700 dark:text-green-300">
+          No differences found.
+        </div>
+      ) : (
+        <>
+          {changed.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-amber-600 dark:text-amber-400">
+                Changed ({changed.length})
+              </h2>
+              <div className="rounded-md border border-amber-500/40 bg-amber-500/10 px-4 py-3">
+                <EntryList entries={changed} onOpenRoom={onOpenRoom} />
+              </div>
+            </div>
+          )}
+
+          {added.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-green-600 dark:text-green-400">
+                Added ({added.length})
+              </h2>
+              <div className="rounded-md border border-green-500/40 bg-green-500/10 px-4 py-3">
+                <EntryList entries={added} onOpenRoom={onOpenRoom} />
+              </div>
+            </div>
+          )}
+
+          {removed.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold text-red-600 dark:text-red-400">
+                Removed ({removed.length})
+              </h2>
+              <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3">
+                <EntryList entries={removed} onOpenRoom={onOpenRoom} />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
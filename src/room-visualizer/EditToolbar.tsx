@@ -0,0 +1,104 @@
+import { Download, Pencil, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EDIT_SNAP_OPTIONS } from "./constants";
+
+type EditToolbarProps = {
+  editMode: boolean;
+  setEditMode: (value: boolean) => void;
+  snap: number;
+  setSnap: (value: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  editCount: number;
+  canDownload: boolean;
+  onDownload: () => void;
+  includeChangeLog: boolean;
+  setIncludeChangeLog: (value: boolean) => void;
+  message: string;
+};
+
+export default function EditToolbar({
+  editMode,
+  setEditMode,
+  snap,
+  setSnap,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  editCount,
+  canDownload,
+  onDownload,
+  includeChangeLog,
+  setIncludeChangeLog,
+  message,
+}: EditToolbarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <button
+        type="button"
+        className={`inline-flex items-center gap-2 rounded-md border px-3 py-1 text-sm transition-colors ${
+          editMode ? "bg-blue-600 text-white" : "hover:bg-muted"
+        }`}
+        onClick={() => setEditMode(!editMode)}
+        aria-pressed={editMode}
+      >
+        <Pencil className="w-3.5 h-3.5" />
+        {editMode ? "Editing" : "Edit schedule"}
+      </button>
+
+      {editMode && (
+        <>
+          <span className="text-muted-foreground">Snap to</span>
+          <Select value={String(snap)} onValueChange={(v) => setSnap(Number(v))}>
+            <SelectTrigger className="h-8 w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EDIT_SNAP_OPTIONS.map((m) => (
+                <SelectItem key={m} value={String(m)}>
+                  {m} min
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-muted-foreground">
+            Drag a block to move it, or its bottom edge to change the end time
+          </span>
+        </>
+      )}
+
+      <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} className="gap-1" title="Undo (Ctrl+Z)">
+        <Undo2 className="w-4 h-4" />
+        Undo
+      </Button>
+      <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} className="gap-1" title="Redo (Ctrl+Shift+Z)">
+        <Redo2 className="w-4 h-4" />
+        Redo
+      </Button>
+      <Button variant="outline" size="sm" onClick={onDownload} disabled={!canDownload} className="gap-2">
+        <Download className="w-4 h-4" />
+        Download workbook{editCount ? ` (${editCount} edit${editCount === 1 ? "" : "s"})` : ""}
+      </Button>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={includeChangeLog}
+          onChange={(e) => setIncludeChangeLog(e.target.checked)}
+        />
+        Include change log
+      </label>
+
+      {message && <span className="text-amber-600 dark:text-amber-400">{message}</span>}
+    </div>
+  );
+}
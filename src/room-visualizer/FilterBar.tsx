@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { LIST_FILTERS, countActiveFilters, EMPTY_ROW_FILTERS, type ListFilterKey } from "./rowFilters";
+import type { RowFilters } from "./types";
+
+type FilterBarProps = {
+  filters: RowFilters;
+  setFilters: (filters: RowFilters) => void;
+  options: Record<ListFilterKey, string[]>;
+  matchingRows: number;
+  totalRows: number;
+};
+
+//A dropdown of checkboxes; nothing ticked means every value
+function ValueMenu({
+  label,
+  options,
+  selected,
+  onChange,
+}: {
+  label: string;
+  options: string[];
+  selected: string[];
+  onChange: (values: string[]) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const ref = useRef<HTMLDivElement | null>(null);
+
+  //Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+    function onPointerDown(e: PointerEvent) {
+      if (!ref.current?.contains(e.target as Node)) setOpen(false);
+    }
+    window.addEventListener("pointerdown", onPointerDown);
+    return () => window.removeEventListener("pointerdown", onPointerDown);
+  }, [open]);
+
+  const listed = options.filter(v => v.toLowerCase().includes(search.trim().toLowerCase()));
+  const summary = !selected.length ? "All" : selected.length === 1 ? selected[0] : `${selected.length} selected`;
+
+  function toggle(value: string) {
+    onChange(
+      selected.includes(value)
+        ? selected.filter(v => v !== value)
+        : options.filter(v => v === value || selected.includes(v))
+    );
+  }
+
+  return (
+    <div ref={ref} className="relative w-48">
+      <label className="text-sm text-muted-foreground">{label}</label>
+      <button
+        type="button"
+        className={`flex h-9 w-full items-center justify-between gap-2 rounded-md border px-3 text-sm ${
+          selected.length ? "border-blue-600" : ""
+        }`}
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        disabled={!options.length}
+      >
+        <span className="truncate">{summary}</span>
+        <ChevronDown className="w-4 h-4 shrink-0 opacity-50" />
+      </button>
+
+      {open && (
+        <div className="absolute z-30 mt-1 w-64 rounded-md border bg-popover text-popover-foreground p-2 shadow-md space-y-2">
+          {options.length > 8 && (
+            <Input
+              placeholder={`Filter ${label.toLowerCase()}s`}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          )}
+          <div className="max-h-60 overflow-auto space-y-1">
+            {listed.map((v) => (
+              <label key={v} className="flex items-center gap-2 text-sm cursor-pointer">
+                <input type="checkbox" checked={selected.includes(v)} onChange={() => toggle(v)} />
+                <span className="truncate">{v}</span>
+              </label>
+            ))}
+          </div>
+          {selected.length > 0 && (
+            <button
+              type="button"
+              className="text-xs text-blue-600 dark:text-blue-400 underline"
+              onClick={() => onChange([])}
+            >
+              Show all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function FilterBar({ filters, setFilters, options, matchingRows, totalRows }: FilterBarProps) {
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      {LIST_FILTERS.map(({ key, label }) => (
+        <ValueMenu
+          key={key}
+          label={label}
+          options={options[key]}
+          selected={filters[key]}
+          onChange={(values) => setFilters({ ...filters, [key]: values })}
+        />
+      ))}
+
+      <div className="w-40">
+        <label className="text-sm text-muted-foreground">Meets from</label>
+        <Input
+          type="date"
+          value={filters.dateFrom}
+          max={filters.dateTo || undefined}
+          onChange={(e) => setFilters({ ...filters, dateFrom: e.target.value })}
+        />
+      </div>
+      <div className="w-40">
+        <label className="text-sm text-muted-foreground">Meets until</label>
+        <Input
+          type="date"
+          value={filters.dateTo}
+          min={filters.dateFrom || undefined}
+          onChange={(e) => setFilters({ ...filters, dateTo: e.target.value })}
+        />
+      </div>
+
+      <div className="flex items-center gap-2 pb-2 text-sm text-muted-foreground">
+        {activeCount > 0 ? `${matchingRows} of ${totalRows} rows match` : `${totalRows} rows`}
+        {activeCount > 0 && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 dark:text-blue-400 underline"
+            onClick={() => setFilters(EMPTY_ROW_FILTERS)}
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
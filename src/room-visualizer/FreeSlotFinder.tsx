@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { findFreeRooms, type AvailabilityQuery, type FreeRoom } from "./availability";
+import type { CalendarEntry, RoomInfo, Row } from "./types";
+import { WEEKDAY_COLUMNS, WEEKDAY_LABELS } from "./utils";
+
+type FreeSlotFinderProps = {
+  rows: Row[];
+  calendar: CalendarEntry[];
+  inventory: RoomInfo[];
+  termStart: Date | null;
+  termEnd: Date | null;
+  onSelect: (room: string, query: AvailabilityQuery) => void;
+};
+
+export default function FreeSlotFinder({
+  rows,
+  calendar,
+  inventory,
+  termStart,
+  termEnd,
+  onSelect,
+}: FreeSlotFinderProps) {
+  const [query, setQuery] = useState<AvailabilityQuery>({
+    days: ["T", "R"],
+    startTime: "14:00",
+    endTime: "15:15",
+    startDate: termStart ? format(termStart, "yyyy-MM-dd") : "",
+    endDate: termEnd ? format(termEnd, "yyyy-MM-dd") : "",
+    minCapacity: null,
+  });
+  const [results, setResults] = useState<FreeRoom[] | null>(null);
+
+  const canSearch =
+    query.days.length > 0 &&
+    !!query.startTime &&
+    !!query.endTime &&
+    query.startTime < query.endTime &&
+    !!query.startDate &&
+    !!query.endDate &&
+    query.startDate <= query.endDate;
+
+  function toggleDay(day: string) {
+    setQuery({
+      ...query,
+      days: query.days.includes(day)
+        ? query.days.filter(d => d !== day)
+        : WEEKDAY_COLUMNS.filter(d => d === day || query.days.includes(d)),
+    });
+  }
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Search className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Find a free room</h2>
+          <span className="text-sm text-muted-foreground">
+            Rooms with no class on the chosen days and times anywhere in the date range.
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label className="text-sm text-muted-foreground">Days</label>
+            <div className="inline-flex rounded-md border p-0.5">
+              {WEEKDAY_COLUMNS.map((d) => (
+                <button
+                  key={d}
+                  type="button"
+                  title={WEEKDAY_LABELS[d]}
+                  className={`rounded px-2 py-1 text-sm transition-colors ${
+                    query.days.includes(d) ? "bg-blue-600 text-white" : "hover:bg-muted"
+                  }`}
+                  onClick={() => toggleDay(d)}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="w-32">
+            <label className="text-sm text-muted-foreground">From</label>
+            <Input
+              type="time"
+              value={query.startTime}
+              onChange={(e) => setQuery({ ...query, startTime: e.target.value })}
+            />
+          </div>
+          <div className="w-32">
+            <label className="text-sm text-muted-foreground">To</label>
+            <Input
+              type="time"
+              value={query.endTime}
+              onChange={(e) => setQuery({ ...query, endTime: e.target.value })}
+            />
+          </div>
+          <div className="w-40">
+            <label className="text-sm text-muted-foreground">Start date</label>
+            <Input
+              type="date"
+              value={query.startDate}
+              onChange={(e) => setQuery({ ...query, startDate: e.target.value })}
+            />
+          </div>
+          <div className="w-40">
+            <label className="text-sm text-muted-foreground">End date</label>
+            <Input
+              type="date"
+              value={query.endDate}
+              onChange={(e) => setQuery({ ...query, endDate: e.target.value })}
+            />
+          </div>
+          <div className="w-32">
+            <label className="text-sm text-muted-foreground">Min. seats</label>
+            <Input
+              type="number"
+              min={0}
+              placeholder="Any"
+              value={query.minCapacity ?? ""}
+              onChange={(e) =>
+                setQuery({ ...query, minCapacity: e.target.value ? Number(e.target.value) : null })
+              }
+            />
+          </div>
+          <Button
+            size="sm"
+            disabled={!canSearch || !rows.length}
+            onClick={() => setResults(findFreeRooms(rows, query, calendar, inventory))}
+          >
+            Search
+          </Button>
+        </div>
+
+        {results && (
+          results.length > 0 ? (
+            <ul className="max-h-64 overflow-auto divide-y rounded-md border text-sm">
+              {results.map((r) => (
+                <li key={r.room}>
+                  <button
+                    type="button"
+                    className="flex w-full items-center gap-3 px-3 py-1.5 text-left hover:bg-muted"
+                    onClick={() => onSelect(r.room, query)}
+                  >
+                    <span className="w-40 font-medium">{r.room}</span>
+                    <span className="w-32 text-muted-foreground">
+                      {r.capacity !== null ? `${r.capacity} seats` : "Capacity unknown"}
+                    </span>
+                    <span className="flex-1 text-muted-foreground">
+                      {r.idleMinutes !== null
+                        ? `Nearest class ${r.idleMinutes} min away`
+                        : "No other classes on these days"}
+                    </span>
+                    <span className="text-blue-600 dark:text-blue-400 underline">View room</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">No room is free for that whole window.</p>
+          )
+        )}
+
+        <p className="text-xs text-muted-foreground">
+          Capacity comes from the room inventory when one is loaded, otherwise from the largest
+          Max Enrollment scheduled in each room; rooms with no known capacity are left out when
+          a minimum is set. Only scheduled classes block a room. Rooms are ranked by the
+          fewest spare seats, then by how closely the slot fits between existing classes.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { CalendarPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export type IcsScope = "room" | "instructor" | "rooms";
+
+const SCOPE_LABELS: Record<IcsScope, string> = {
+  room: "This room",
+  instructor: "An instructor",
+  rooms: "All rooms (zip)",
+};
+
+type IcsExportPanelProps = {
+  room: string;
+  instructors: string[];
+  defaultInstructor: string;
+  filterLabel: string;
+  //Returns the number of events written; 0 when nothing matched
+  onDownload: (scope: IcsScope, instructor: string) => number;
+};
+
+export default function IcsExportPanel({
+  room,
+  instructors,
+  defaultInstructor,
+  filterLabel,
+  onDownload,
+}: IcsExportPanelProps) {
+  const [scope, setScope] = useState<IcsScope>(room ? "room" : "instructor");
+  const [instructor, setInstructor] = useState(defaultInstructor);
+  const [message, setMessage] = useState("");
+
+  const ready =
+    scope === "room" ? !!room : scope === "instructor" ? !!instructor : true;
+
+  function download() {
+    const count = onDownload(scope, instructor);
+    setMessage(
+      count
+        ? `Exported ${count} recurring event${count === 1 ? "" : "s"}.`
+        : `No "${filterLabel}" classes with complete dates and times to export.`
+    );
+  }
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <CalendarPlus className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Calendar export</h2>
+          <span className="text-sm text-muted-foreground">
+            Weekly recurring events ({filterLabel}) from each row's start and end dates, for Outlook, Google or Apple Calendar.
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="inline-flex rounded-md border p-0.5">
+            {(Object.keys(SCOPE_LABELS) as IcsScope[]).map((s) => (
+              <button
+                key={s}
+                type="button"
+                className={`rounded px-3 py-1 text-sm transition-colors ${
+                  scope === s ? "bg-blue-600 text-white" : "hover:bg-muted"
+                }`}
+                onClick={() => setScope(s)}
+              >
+                {s === "room" && room ? `Room ${room}` : SCOPE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+
+          {scope === "instructor" && (
+            <div className="w-64">
+              <Select value={instructor} onValueChange={setInstructor}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an instructor" />
+                </SelectTrigger>
+                <SelectContent>
+                  {instructors.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <Button size="sm" onClick={download} disabled={!ready}>
+            Download .ics
+          </Button>
+        </div>
+
+        {message && <p className="text-sm text-muted-foreground">{message}</p>}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { distinct, getBuilding, WEEKDAY_COLUMNS, WEEKDAY_LABELS } from "./utils";
+
+type MultiRoomControlsProps = {
+  rooms: string[];
+  selectedRooms: string[];
+  setSelectedRooms: (rooms: string[]) => void;
+  day: string;
+  setDay: (day: string) => void;
+  dayLabels: Record<string, string>;
+};
+
+export default function MultiRoomControls({
+  rooms,
+  selectedRooms,
+  setSelectedRooms,
+  day,
+  setDay,
+  dayLabels,
+}: MultiRoomControlsProps) {
+  const [search, setSearch] = useState("");
+
+  const buildings = distinct(rooms.map(getBuilding).filter(Boolean)).sort();
+  const listed = rooms.filter(r => r.toLowerCase().includes(search.trim().toLowerCase()));
+
+  function toggleRoom(r: string) {
+    setSelectedRooms(
+      selectedRooms.includes(r)
+        ? selectedRooms.filter(x => x !== r)
+        : rooms.filter(x => x === r || selectedRooms.includes(x))
+    );
+  }
+
+  function selectBuilding(building: string) {
+    setSelectedRooms(rooms.filter(r => getBuilding(r) === building));
+  }
+
+  return (
+    <div className="flex flex-wrap items-start gap-4">
+      <div className="w-40">
+        <label className="text-sm text-muted-foreground">Day</label>
+        <Select value={day} onValueChange={setDay}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WEEKDAY_COLUMNS.map((d) => (
+              <SelectItem key={d} value={d}>
+                {dayLabels[d] || WEEKDAY_LABELS[d]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="w-48">
+        <label className="text-sm text-muted-foreground">Building</label>
+        <Select value="" onValueChange={selectBuilding}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select all rooms in…" />
+          </SelectTrigger>
+          <SelectContent>
+            {buildings.map((b) => (
+              <SelectItem key={b} value={b}>
+                {b} ({rooms.filter(r => getBuilding(r) === b).length})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="min-w-64 flex-1 space-y-1">
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-muted-foreground">
+            Rooms ({selectedRooms.length} selected)
+          </label>
+          <button
+            type="button"
+            className="ml-auto text-xs text-blue-600 dark:text-blue-400 underline"
+            onClick={() => setSelectedRooms([])}
+          >
+            Clear
+          </button>
+        </div>
+        <Input
+          className="h-8"
+          placeholder="Filter rooms"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <div className="max-h-32 overflow-auto rounded-md border px-2 py-1 grid gap-x-4 sm:grid-cols-2 lg:grid-cols-4">
+          {listed.map((r) => (
+            <label key={r} className="flex items-center gap-2 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selectedRooms.includes(r)}
+                onChange={() => toggleRoom(r)}
+              />
+              {r}
+            </label>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { format } from "date-fns";
+import { History, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { RecentFile } from "./types";
+
+type RecentFilesPanelProps = {
+  recentFiles: RecentFile[];
+  currentFileName: string;
+  onOpen: (fileName: string) => void;
+  onRemove: (fileName: string) => void;
+  onClear: () => void;
+};
+
+export default function RecentFilesPanel({
+  recentFiles,
+  currentFileName,
+  onOpen,
+  onRemove,
+  onClear,
+}: RecentFilesPanelProps) {
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <History className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Recent files</h2>
+          <span className="text-sm text-muted-foreground">
+            Saved in this browser only. The last file and view reopen when you come back.
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            className="ml-auto gap-2"
+            onClick={() => {
+              if (window.confirm("Remove every saved schedule and the saved view from this browser?")) onClear();
+            }}
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear saved data
+          </Button>
+        </div>
+
+        {recentFiles.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No saved files yet. Uploaded schedules appear here.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {recentFiles.map((f) => (
+              <li key={f.fileName} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <div className="min-w-0 flex-1">
+                  <div className="truncate font-medium">{f.fileName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {f.rowCount} row{f.rowCount === 1 ? "" : "s"} · saved {format(f.savedAt, "MMM d, yyyy h:mm a")}
+                  </div>
+                </div>
+                {f.fileName === currentFileName ? (
+                  <span className="text-xs text-muted-foreground">Open now</span>
+                ) : (
+                  <Button variant="secondary" size="sm" onClick={() => onOpen(f.fileName)}>
+                    Open
+                  </Button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => onRemove(f.fileName)}
+                  className="rounded p-1 hover:bg-muted"
+                  aria-label={`Remove ${f.fileName} from recent files`}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
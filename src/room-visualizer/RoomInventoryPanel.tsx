@@ -0,0 +1,111 @@
+import { useRef, useState } from "react";
+import { Building2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { readTabularFile } from "./importers";
+import { parseRoomInventory } from "./roomInventory";
+import type { RoomInfo } from "./types";
+
+type RoomInventoryPanelProps = {
+  inventory: RoomInfo[];
+  setInventory: (rooms: RoomInfo[]) => void;
+};
+
+export default function RoomInventoryPanel({
+  inventory,
+  setInventory,
+}: RoomInventoryPanelProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const [table] = await readTabularFile(file);
+      const { rooms, errors } = parseRoomInventory(table?.records ?? []);
+
+      //A re-imported room replaces its earlier entry
+      const byRoom = new Map(inventory.map(r => [r.room, r]));
+      for (const r of rooms) byRoom.set(r.room, r);
+      setInventory(Array.from(byRoom.values()).sort((a, b) => a.room.localeCompare(b.room)));
+      setErrors([...(table?.parseErrors ?? []), ...errors]);
+    } catch (err) {
+      setErrors([`Could not read "${file.name}": ${err instanceof Error ? err.message : String(err)}`]);
+    }
+  }
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Building2 className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Room inventory</h2>
+          <span className="text-sm text-muted-foreground">
+            Seat capacity and features used to check enrollment and room requirements.
+          </span>
+
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv,.tsv,.txt"
+            ref={fileRef}
+            onChange={onFileChange}
+            className="hidden"
+          />
+          <div className="ml-auto flex gap-2">
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileRef.current?.click()}>
+              <Upload className="w-4 h-4" />
+              Import inventory
+            </Button>
+            {inventory.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => setInventory([])}>
+                Clear all
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="list-disc pl-6 text-sm text-red-700 dark:text-red-300">
+            {errors.map((msg, idx) => (
+              <li key={idx}>{msg}</li>
+            ))}
+          </ul>
+        )}
+
+        {inventory.length > 0 ? (
+          <ul className="max-h-64 overflow-auto divide-y rounded-md border text-sm">
+            {inventory.map((info) => (
+              <li key={info.room} className="flex items-center gap-3 px-3 py-1.5">
+                <span className="w-40 font-medium">{info.room}</span>
+                <span className="w-24 text-muted-foreground">{info.building}</span>
+                <span className="w-24">
+                  {info.capacity !== null ? `${info.capacity} seats` : "—"}
+                </span>
+                <span className="flex-1 text-muted-foreground">
+                  {info.features.length ? info.features.join(", ") : "No features listed"}
+                </span>
+                <button
+                  type="button"
+                  className="rounded p-1 text-muted-foreground hover:bg-muted"
+                  aria-label={`Remove ${info.room}`}
+                  onClick={() => setInventory(inventory.filter(r => r.room !== info.room))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No rooms yet. Import a file with <code>Room</code>, <code>Building</code>,{" "}
+            <code>Capacity</code> and <code>Features</code> columns; list features separated by
+            commas, e.g. <code>Projector, Lab benches</code>.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
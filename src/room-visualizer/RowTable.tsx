@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ArrowDown, ArrowUp, CalendarSearch, Redo2, Search, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ROW_TABLE_COLUMNS, formatCellValue, parseCellInput, queryRows, type RowSort } from "./rowQuery";
+import type { Row, RowField } from "./types";
+import { describeRowSource } from "./utils";
+
+type RowTableProps = {
+  rows: Row[];
+  selectedRowIndex: number | null;
+  onSelectRow: (rowIndex: number) => void;
+  onEditCell: (rowIndex: number, field: RowField, value: string | number) => void;
+  onShowOnSchedule: (rowIndex: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+};
+
+//Only the rows in view (plus a few either side) are rendered, so large files scroll smoothly
+const ROW_HEIGHT = 32;
+const OVERSCAN = 8;
+const SOURCE_WIDTH = 150;
+
+export default function RowTable({
+  rows,
+  selectedRowIndex,
+  onSelectRow,
+  onEditCell,
+  onShowOnSchedule,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+}: RowTableProps) {
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<Partial<Record<RowField, string>>>({});
+  const [sort, setSort] = useState<RowSort>(null);
+  const [editing, setEditing] = useState<{ rowIndex: number; field: RowField; draft: string; error: string } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  //Set once an edit is saved or dropped, so the blur that follows does not save it again
+  const editClosedRef = useRef(false);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const visibleIndices = useMemo(() => queryRows(rows, { search, filters, sort }), [rows, search, filters, sort]);
+
+  const totalWidth = SOURCE_WIDTH + ROW_TABLE_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(visibleIndices.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+
+  //Ascending, then descending, then back to file order
+  function toggleSort(field: RowField) {
+    setSort(prev =>
+      prev?.field !== field
+        ? { field, direction: "asc" }
+        : prev.direction === "asc"
+        ? { field, direction: "desc" }
+        : null
+    );
+  }
+
+  function startEditing(rowIndex: number, field: RowField) {
+    editClosedRef.current = false;
+    setEditing({ rowIndex, field, draft: formatCellValue(rows[rowIndex], field), error: "" });
+  }
+
+  //Invalid text keeps the editor open with the error, whether on Enter or on leaving the cell
+  function commitEditing() {
+    if (!editing || editClosedRef.current) return;
+    const result = parseCellInput(editing.field, editing.draft);
+    if ("error" in result) {
+      setEditing({ ...editing, error: result.error });
+      return;
+    }
+    editClosedRef.current = true;
+    if (result.value !== (rows[editing.rowIndex][editing.field] ?? "")) {
+      onEditCell(editing.rowIndex, editing.field, result.value);
+    }
+    setEditing(null);
+  }
+
+  const hasFilters = search.trim() !== "" || Object.values(filters).some(v => v?.trim());
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative w-72">
+          <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search every column"
+            className="pl-8"
+          />
+        </div>
+        <span className="text-sm text-muted-foreground">
+          {visibleIndices.length === rows.length
+            ? `${rows.length} rows`
+            : `${visibleIndices.length} of ${rows.length} rows`}
+          {" · "}double-click a cell to edit it
+        </span>
+        {hasFilters && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 dark:text-blue-400 underline"
+            onClick={() => {
+              setSearch("");
+              setFilters({});
+            }}
+          >
+            Clear filters
+          </button>
+        )}
+        <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo} className="ml-auto gap-1" title="Undo (Ctrl+Z)">
+          <Undo2 className="w-4 h-4" />
+          Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo} className="gap-1" title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="w-4 h-4" />
+          Redo
+        </Button>
+        {selectedRowIndex !== null && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-2"
+            onClick={() => onShowOnSchedule(selectedRowIndex)}
+          >
+            <CalendarSearch className="w-4 h-4" />
+            Show on schedule
+          </Button>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="flex-1 min-h-0 overflow-auto rounded-2xl border bg-card text-card-foreground shadow-sm"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div style={{ width: totalWidth }} className="text-sm">
+          <div className="sticky top-0 z-10 flex border-b bg-muted/95 backdrop-blur">
+            <div style={{ width: SOURCE_WIDTH }} className="shrink-0 px-2 py-1 font-medium">
+              Source
+            </div>
+            {ROW_TABLE_COLUMNS.map((c) => (
+              <div key={c.field} style={{ width: c.width }} className="shrink-0 px-1 py-1 space-y-1">
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-1 px-1 text-left font-medium hover:text-blue-600"
+                  onClick={() => toggleSort(c.field)}
+                  title={`Sort by ${c.label}`}
+                >
+                  <span className="truncate">{c.label}</span>
+                  {sort?.field === c.field &&
+                    (sort.direction === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                </button>
+                <input
+                  value={filters[c.field] ?? ""}
+                  onChange={(e) => setFilters(prev => ({ ...prev, [c.field]: e.target.value }))}
+                  placeholder="Filter"
+                  aria-label={`Filter ${c.label}`}
+                  className="w-full rounded border bg-background px-1 py-0.5 text-xs font-normal"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div style={{ height: visibleIndices.length * ROW_HEIGHT }} className="relative">
+            {visibleIndices.slice(first, last).map((rowIndex, offset) => {
+              const row = rows[rowIndex];
+              const isSelected = rowIndex === selectedRowIndex;
+              return (
+                <div
+                  key={rowIndex}
+                  style={{ top: (first + offset) * ROW_HEIGHT, height: ROW_HEIGHT, width: totalWidth }}
+                  className={`absolute left-0 flex items-center border-b ${
+                    isSelected ? "bg-blue-50 dark:bg-blue-950/60" : "hover:bg-muted/60"
+                  }`}
+                  onClick={() => onSelectRow(rowIndex)}
+                >
+                  <div style={{ width: SOURCE_WIDTH }} className="shrink-0 truncate px-2 text-xs text-muted-foreground">
+                    {describeRowSource(row, rowIndex)}
+                  </div>
+                  {ROW_TABLE_COLUMNS.map((c) => {
+                    const isEditing = editing?.rowIndex === rowIndex && editing.field === c.field;
+                    const text = formatCellValue(row, c.field);
+                    return (
+                      <div
+                        key={c.field}
+                        style={{ width: c.width }}
+                        className="shrink-0 px-2"
+                        onDoubleClick={() => startEditing(rowIndex, c.field)}
+                      >
+                        {isEditing ? (
+                          <input
+                            autoFocus
+                            value={editing.draft}
+                            onChange={(e) => setEditing({ ...editing, draft: e.target.value, error: "" })}
+                            onKeyDown={(e) => {
+                              if (e.key === "Enter") commitEditing();
+                              if (e.key === "Escape") {
+                                editClosedRef.current = true;
+                                setEditing(null);
+                              }
+                            }}
+                            onBlur={commitEditing}
+                            onClick={(e) => e.stopPropagation()}
+                            title={editing.error || undefined}
+                            className={`w-full rounded border bg-background px-1 py-0.5 text-sm ${
+                              editing.error ? "border-red-500" : ""
+                            }`}
+                          />
+                        ) : (
+                          <div className="truncate" title={text}>
+                            {text || <span className="text-muted-foreground">—</span>}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+
+          {visibleIndices.length === 0 && (
+            <p className="p-4 text-sm text-muted-foreground">
+              {rows.length ? "No rows match the search and filters." : "Upload a file to see its rows."}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {editing?.error && (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          {editing.error}. The edit is not saved; correct it and press Enter, or press Escape in the cell to discard it.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import { format } from "date-fns";
-import type { MouseEvent } from "react";
+import type { MouseEvent, PointerEvent } from "react";
+import type { DiffKind } from "./diff";
+import { formatMinutes, isEditableSession } from "./scheduleEditing";
 import type { SessionInstance } from "./types";
-import { WEEKDAY_LABELS, getContrastTextColor, getSessionHoverGroupKey } from "./utils";
+import { WEEKDAY_LABELS, getContrastTextColor, getSessionHoverGroupKey, getSessionKey } from "./utils";
 
 type PlacedSession = SessionInstance & {
   lane: number;
@@ -12,6 +14,8 @@ type ScheduleSvgProps = {
   width: number;
   height: number;
   dateColumns: string[];
+  columnLabels?: Record<string, string>;
+  columnNotes?: Record<string, string>;
   hourTicks: number[];
   effectiveMin: number;
   hourHeight: number;
@@ -21,7 +25,8 @@ type ScheduleSvgProps = {
   colWidth: number;
   lanesByDate: Map<string, PlacedSession[]>;
   yFor: (date: Date) => number;
-  colorByInstructor: Map<string, string>;
+  getBlockColor: (session: SessionInstance) => string;
+  flaggedSessionKeys?: Set<string>;
   theme: "light" | "dark";
   hoveredGroupKey: string | null;
   setHoveredGroupKey: (value: string | null) => void;
@@ -29,12 +34,27 @@ type ScheduleSvgProps = {
     e: MouseEvent<SVGGElement>,
     session: SessionInstance
   ) => void;
+  diffKindByOfferingId?: Map<string, DiffKind>;
+  ghostsByDate?: Map<string, SessionInstance[]>;
+  highlightSlot?: { columns: string[]; start: Date; end: Date } | null;
+  selectedRowIndices?: Set<number>;
+  //Set in edit mode: blocks can be dragged, and resized from their bottom edge
+  onBlockPointerDown?: (e: PointerEvent<SVGElement>, session: SessionInstance, mode: "move" | "resize") => void;
+  dragPreview?: { column: string; startMinutes: number; endMinutes: number } | null;
+};
+
+const DIFF_STROKES: Record<DiffKind, string> = {
+  added: "#16a34a",
+  changed: "#f59e0b",
+  removed: "#ef4444",
 };
 
 export default function ScheduleSvg({
   width,
   height,
   dateColumns,
+  columnLabels = WEEKDAY_LABELS,
+  columnNotes,
   hourTicks,
   effectiveMin,
   hourHeight,
@@ -44,11 +64,18 @@ export default function ScheduleSvg({
   colWidth,
   lanesByDate,
   yFor,
-  colorByInstructor,
+  getBlockColor,
+  flaggedSessionKeys,
   theme,
   hoveredGroupKey,
   setHoveredGroupKey,
   toggleTooltip,
+  diffKindByOfferingId,
+  ghostsByDate,
+  highlightSlot,
+  selectedRowIndices,
+  onBlockPointerDown,
+  dragPreview,
 }: ScheduleSvgProps) {
   const svgTheme =
     theme === "dark"
@@ -84,8 +111,19 @@ export default function ScheduleSvg({
               fontWeight={600}
               fill={svgTheme.headerText}
             >
-              {WEEKDAY_LABELS[d] || d}
+              {columnLabels[d] || d}
             </text>
+            {columnNotes?.[d] && (
+              <text
+                x={x + colWidth / 2}
+                y={31}
+                textAnchor="middle"
+                fontSize={9}
+                fill={columnNotes[d].startsWith("Closed") ? "#ef4444" : svgTheme.mutedText}
+              >
+                {columnNotes[d]}
+              </text>
+            )}
           </g>
         );
       })}
@@ -133,6 +171,75 @@ export default function ScheduleSvg({
         );
       })}
 
+      {/* Slot requested in the free-room finder */}
+      {highlightSlot &&
+        dateColumns.map((d, i) => {
+          if (!highlightSlot.columns.includes(d)) return null;
+          const x = labelW + gutter + i * (colWidth + gutter);
+          const y1 = yFor(highlightSlot.start);
+          return (
+            <g key={`slot-${d}`} style={{ pointerEvents: "none" }}>
+              <rect
+                x={x + 1}
+                y={y1}
+                width={colWidth - 2}
+                height={Math.max(4, yFor(highlightSlot.end) - y1)}
+                fill="#2563eb"
+                fillOpacity={0.15}
+                stroke="#2563eb"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+              />
+              <text x={x + 8} y={y1 + 14} fontSize={10} fontWeight={600} fill="#2563eb">
+                Requested slot
+              </text>
+            </g>
+          );
+        })}
+
+      {/* Previous positions from the comparison file */}
+      {ghostsByDate &&
+        dateColumns.map((d, i) => {
+          const x = labelW + gutter + i * (colWidth + gutter);
+          const list = ghostsByDate.get(d) ?? [];
+
+          return (
+            <g key={`ghosts-${d}`} style={{ pointerEvents: "none" }}>
+              {list.map((s, idx) => {
+                const y1 = yFor(s.start);
+                const blockHeight = Math.max(14, yFor(s.end) - y1 - 4);
+                return (
+                  <g key={idx}>
+                    <rect
+                      x={x + 3}
+                      y={y1 + 2}
+                      rx={8}
+                      ry={8}
+                      width={colWidth - 6}
+                      height={blockHeight}
+                      fill={DIFF_STROKES.removed}
+                      fillOpacity={0.08}
+                      stroke={DIFF_STROKES.removed}
+                      strokeWidth={1.5}
+                      strokeDasharray="6 4"
+                    />
+                    {blockHeight >= 20 && (
+                      <text
+                        x={x + 10}
+                        y={y1 + 15}
+                        fontSize={10}
+                        fill={DIFF_STROKES.removed}
+                      >
+                        was: {s.baseCourse}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+
       {/* Session blocks */}
       {dateColumns.map((d, i) => {
         const x = labelW + gutter + i * (colWidth + gutter);
@@ -166,14 +273,24 @@ export default function ScheduleSvg({
               const showTwoLines = blockHeight >= 36;
               const showOneLine = blockHeight >= 20;
 
-              const blockFill = colorByInstructor.get(s.instructor) || "#94a3b8";
-              const blockTextColor = getContrastTextColor(blockFill);
+              const blockFill = getBlockColor(s);
+              const isFlagged = flaggedSessionKeys?.has(getSessionKey(s)) ?? false;
+              //Blocks picked from a validation issue stay bright; everything else fades
+              const isSelected = selectedRowIndices?.size
+                ? s.rowIndices.some(i => selectedRowIndices.has(i))
+                : null;
+              //Closed-day blocks are faded, so their text sits on the column background
+              const blockTextColor = s.closedReason ? svgTheme.headerText : getContrastTextColor(blockFill);
 			  
 			  const groupKey = getSessionHoverGroupKey(s);
 			  const isHighlighted = hoveredGroupKey === null || hoveredGroupKey === groupKey;
 			  const isDirectHover = hoveredGroupKey === groupKey;
 
-			  const blockOpacity = hoveredGroupKey === null ? 0.85 : isHighlighted ? 1 : 0.28;
+			  const baseOpacity = s.closedReason ? 0.3 : 0.85;
+			  const blockOpacity =
+			    hoveredGroupKey === null
+			      ? isSelected === false ? 0.2 : baseOpacity
+			      : isHighlighted ? Math.max(baseOpacity, 0.6) : 0.2;
 			  const strokeColor =
 			    hoveredGroupKey !== null && isDirectHover
 				  ? theme === "dark"
@@ -184,6 +301,12 @@ export default function ScheduleSvg({
 					: "#00000018";
 			  const strokeWidth = hoveredGroupKey !== null && isDirectHover ? 2 : 1;
 
+			  const diffKind = s.courseOfferingIds
+			    .map(id => diffKindByOfferingId?.get(id))
+			    .find((k): k is DiffKind => k === "added" || k === "changed");
+
+			  const draggable = !!onBlockPointerDown && isEditableSession(s);
+
               return (
                 <g
                   key={idx}
@@ -197,6 +320,8 @@ export default function ScheduleSvg({
 					e.stopPropagation();
 					toggleTooltip(e, s);
 				  }}
+				  onPointerDown={draggable ? (e) => onBlockPointerDown(e, s, "move") : undefined}
+				  style={draggable ? { cursor: "grab", touchAction: "none" } : undefined}
                 >
                   <rect
                     x={bx}
@@ -209,8 +334,64 @@ export default function ScheduleSvg({
                     opacity={blockOpacity}
 					stroke={strokeColor}
 					strokeWidth={strokeWidth}
+					strokeDasharray={s.closedReason ? "4 3" : undefined}
                   />
 
+                  {isFlagged && (
+                    <>
+                      <rect
+                        x={bx - 1}
+                        y={blockY - 1}
+                        rx={9}
+                        ry={9}
+                        width={blockWidth + 2}
+                        height={blockHeight + 2}
+                        fill="none"
+                        stroke="#dc2626"
+                        strokeWidth={2.5}
+                        style={{ pointerEvents: "none" }}
+                      />
+                      <circle
+                        cx={bx + blockWidth - 6}
+                        cy={blockY + 6}
+                        r={5}
+                        fill="#dc2626"
+                        style={{ pointerEvents: "none" }}
+                      />
+                    </>
+                  )}
+
+                  {isSelected && (
+                    <rect
+                      x={bx - 3}
+                      y={blockY - 3}
+                      rx={10}
+                      ry={10}
+                      width={blockWidth + 6}
+                      height={blockHeight + 6}
+                      fill="none"
+                      stroke="#2563eb"
+                      strokeWidth={3}
+                      style={{ pointerEvents: "none" }}
+                    />
+                  )}
+
+                  {diffKind && (
+                    <rect
+                      x={bx - 2}
+                      y={blockY - 2}
+                      rx={9}
+                      ry={9}
+                      width={blockWidth + 4}
+                      height={blockHeight + 4}
+                      fill="none"
+                      stroke={DIFF_STROKES[diffKind]}
+                      strokeWidth={2.5}
+                      strokeDasharray="6 3"
+                      style={{ pointerEvents: "none" }}
+                    />
+                  )}
+
                   {showTwoLines ? (
                     <>
                       <text
@@ -233,7 +414,9 @@ export default function ScheduleSvg({
 						opacity={hoveredGroupKey === null ? 1 : isHighlighted ? 1 : 0.45}
                         style={{ pointerEvents: "none" }}
                       >
-                        {format(s.start, "h:mm a")}–{format(s.end, "h:mm a")}
+                        {s.closedReason
+                          ? "Closed"
+                          : <>{format(s.start, "h:mm a")}–{format(s.end, "h:mm a")}</>}
                       </text>
                     </>
                   ) : showOneLine ? (
@@ -249,6 +432,18 @@ export default function ScheduleSvg({
                       {s.baseCourse}
                     </text>
                   ) : null}
+
+                  {draggable && (
+                    <rect
+                      x={bx}
+                      y={blockY + blockHeight - 6}
+                      width={blockWidth}
+                      height={8}
+                      fill="transparent"
+                      style={{ cursor: "ns-resize" }}
+                      onPointerDown={(e) => onBlockPointerDown(e, s, "resize")}
+                    />
+                  )}
                 </g>
               );
             })}
@@ -256,6 +451,35 @@ export default function ScheduleSvg({
         );
       })}
 
+      {/* Where the block being dragged would land */}
+      {dragPreview &&
+        dateColumns.map((d, i) => {
+          if (d !== dragPreview.column) return null;
+          const x = labelW + gutter + i * (colWidth + gutter);
+          const y1 = yFor(new Date(2000, 0, 1, 0, dragPreview.startMinutes));
+          const y2 = yFor(new Date(2000, 0, 1, 0, dragPreview.endMinutes));
+          return (
+            <g key={`drop-${d}`} style={{ pointerEvents: "none" }}>
+              <rect
+                x={x + 3}
+                y={y1 + 2}
+                rx={8}
+                ry={8}
+                width={colWidth - 6}
+                height={Math.max(14, y2 - y1 - 4)}
+                fill="#2563eb"
+                fillOpacity={0.12}
+                stroke="#2563eb"
+                strokeWidth={2}
+                strokeDasharray="6 4"
+              />
+              <text x={x + 10} y={y1 + 16} fontSize={10} fontWeight={600} fill="#2563eb">
+                {formatMinutes(dragPreview.startMinutes)}–{formatMinutes(dragPreview.endMinutes)}
+              </text>
+            </g>
+          );
+        })}
+
       {/* Axis titles */}
       <text
         x={labelW / 2}
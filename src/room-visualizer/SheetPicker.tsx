@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Layers } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import type { ImportedTable } from "./importers";
+
+type SheetPickerProps = {
+  fileName: string;
+  sheets: ImportedTable[];
+  onLoad: (sheets: ImportedTable[]) => void;
+  onCancel: () => void;
+};
+
+export default function SheetPicker({
+  fileName,
+  sheets,
+  onLoad,
+  onCancel,
+}: SheetPickerProps) {
+  //Preselect the first sheet that has data, matching the old single-sheet behavior
+  const [selected, setSelected] = useState<string[]>(() => {
+    const first = sheets.find(s => s.records.length > 0) ?? sheets[0];
+    return first ? [first.name] : [];
+  });
+
+  function toggle(name: string) {
+    setSelected(prev =>
+      prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]
+    );
+  }
+
+  const chosen = sheets.filter(s => selected.includes(s.name));
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Choose worksheet(s)</h2>
+          <span className="text-sm text-muted-foreground truncate">{fileName}</span>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          This workbook has {sheets.length} sheets. Load one sheet, or select several
+          to merge them. Merged rows remember which sheet they came from.
+        </p>
+
+        <ul className="divide-y rounded-md border">
+          {sheets.map((sheet) => (
+            <li key={sheet.name}>
+              <label className="flex items-start gap-3 px-3 py-2 cursor-pointer hover:bg-muted/50">
+                <input
+                  type="checkbox"
+                  className="mt-1"
+                  checked={selected.includes(sheet.name)}
+                  onChange={() => toggle(sheet.name)}
+                />
+                <div className="min-w-0">
+                  <div className="text-sm font-medium">
+                    {sheet.name}{" "}
+                    <span className="font-normal text-muted-foreground">
+                      — {sheet.records.length} row{sheet.records.length === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {sheet.headers.length
+                      ? sheet.headers.join(", ")
+                      : "No headers detected"}
+                  </div>
+                </div>
+              </label>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button
+            size="sm"
+            disabled={chosen.length === 0}
+            onClick={() => onLoad(chosen)}
+          >
+            {chosen.length > 1 ? `Merge ${chosen.length} sheets` : "Load sheet"}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setSelected(sheets.map(s => s.name))}
+          >
+            Select all
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,5 @@
-import { Download, Upload } from "lucide-react";
+import { useState } from "react";
+import { Archive, CalendarPlus, Download, GitCompare, History, Upload, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -10,12 +11,28 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
+import type { ViewMode } from "./types";
 
 type UploadControlsProps = {
   fileRef: React.RefObject<HTMLInputElement | null>;
   onFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
   onUploadClick: () => void;
-  onDownloadPng: () => void;
+  compareFileRef: React.RefObject<HTMLInputElement | null>;
+  onCompareFileChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onCompareUploadClick: () => void;
+  comparisonName: string;
+  onClearComparison: () => void;
+  onDownloadPng: () => Promise<void>;
+  onDownloadSvg: () => void;
+  onExportAllRooms: () => void;
+  onExportCalendar: () => void;
+  onShowRecentFiles: () => void;
+  recentFilesLength: number;
+  roomsLength: number;
+  viewMode: ViewMode;
+  instructor: string;
+  instructors: string[];
+  setInstructor: (value: string) => void;
   sessionsLength: number;
   room: string;
   rooms: string[];
@@ -26,15 +43,28 @@ type UploadControlsProps = {
   setMaxHour: (value: number) => void;
   autoMinHour: number;
   autoMaxHour: number;
-  statusFilter: "All" | "Scheduled" | "Unassigned";
-  setStatusFilter: (value: "All" | "Scheduled" | "Unassigned") => void;
 };
 
 export default function UploadControls({
   fileRef,
   onFileChange,
   onUploadClick,
+  compareFileRef,
+  onCompareFileChange,
+  onCompareUploadClick,
+  comparisonName,
+  onClearComparison,
   onDownloadPng,
+  onDownloadSvg,
+  onExportAllRooms,
+  onExportCalendar,
+  onShowRecentFiles,
+  recentFilesLength,
+  roomsLength,
+  viewMode,
+  instructor,
+  instructors,
+  setInstructor,
   sessionsLength,
   room,
   rooms,
@@ -45,16 +75,25 @@ export default function UploadControls({
   setMaxHour,
   autoMinHour,
   autoMaxHour,
-  statusFilter,
-  setStatusFilter,
 }: UploadControlsProps) {
+  const [exportMessage, setExportMessage] = useState("");
+
+  async function downloadPng() {
+    setExportMessage("");
+    try {
+      await onDownloadPng();
+    } catch (err) {
+      setExportMessage(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
   return (
     <Card className="bg-card text-card-foreground">
       <CardContent className="p-4 flex flex-col gap-3">
         <div className="flex flex-wrap items-center gap-3">
           <Input
             type="file"
-            accept=".xlsx"
+            accept=".xlsx,.xls,.csv,.tsv,.txt"
             ref={fileRef}
             onChange={onFileChange}
             className="max-w-sm"
@@ -62,9 +101,42 @@ export default function UploadControls({
 
           <Button variant="secondary" size="sm" onClick={onUploadClick} className="gap-2">
             <Upload className="w-4 h-4" />
-            Upload .xlsx
+            Upload file
           </Button>
 
+          <input
+            type="file"
+            accept=".xlsx,.xls,.csv,.tsv,.txt"
+            ref={compareFileRef}
+            onChange={onCompareFileChange}
+            className="hidden"
+          />
+
+          {comparisonName ? (
+            <span className="inline-flex items-center gap-2 rounded-md border px-3 py-1.5 text-sm">
+              <GitCompare className="w-4 h-4" />
+              <span className="max-w-48 truncate">Comparing with {comparisonName}</span>
+              <button
+                type="button"
+                onClick={onClearComparison}
+                className="rounded p-0.5 hover:bg-muted"
+                aria-label="Clear comparison file"
+              >
+                <X className="w-3.5 h-3.5" />
+              </button>
+            </span>
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onCompareUploadClick}
+              className="gap-2"
+            >
+              <GitCompare className="w-4 h-4" />
+              Compare with…
+            </Button>
+          )}
+
           <a
             href={`${import.meta.env.BASE_URL}sample-room-visualizer.xlsx`}
             download
@@ -74,50 +146,93 @@ export default function UploadControls({
             Download Sample File
           </a>
 
+          <Button variant="outline" size="sm" onClick={onShowRecentFiles} className="gap-2">
+            <History className="w-4 h-4" />
+            Recent files{recentFilesLength ? ` (${recentFilesLength})` : ""}
+          </Button>
+
           <div className="ml-auto flex items-center gap-2">
             <Button
               variant="outline"
               size="sm"
-              onClick={onDownloadPng}
+              onClick={downloadPng}
               disabled={!sessionsLength}
               className="gap-2"
             >
               <Download className="w-4 h-4" />
               Export PNG
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDownloadSvg}
+              disabled={!sessionsLength}
+              className="gap-2"
+            >
+              <Download className="w-4 h-4" />
+              Export SVG
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onExportAllRooms}
+              disabled={!roomsLength}
+              className="gap-2"
+              title="PNG or SVG images in a zip, or one PDF"
+            >
+              <Archive className="w-4 h-4" />
+              Export all rooms
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onExportCalendar}
+              disabled={!roomsLength}
+              className="gap-2"
+              title="Weekly recurring events as an .ics file"
+            >
+              <CalendarPlus className="w-4 h-4" />
+              Export calendar
+            </Button>
           </div>
         </div>
 
+        {exportMessage && <p className="text-sm text-red-600 dark:text-red-400">{exportMessage}</p>}
+
         <div className="flex flex-wrap items-center gap-4">
-          <div className="w-64">
-            <label className="text-sm text-muted-foreground">Room</label>
-            <Select value={room} onValueChange={setRoom}>
-              <SelectTrigger>
-                <SelectValue placeholder={rooms.length ? "Select a room" : "Upload a file first"} />
-              </SelectTrigger>
-              <SelectContent>
-                {rooms.map((r) => (
-                  <SelectItem key={r} value={r}>
-                    {r}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-		  
-		  <div className="w-56">
-		    <label className="text-sm text-muted-foreground">Status</label>
-		    <Select value={statusFilter} onValueChange={setStatusFilter}>
-			  <SelectTrigger>
-			    <SelectValue placeholder="Filter status" />
-			  </SelectTrigger>
-			  <SelectContent>
-			    <SelectItem value="All">All</SelectItem>
-			    <SelectItem value="Scheduled">Scheduled</SelectItem>
-			    <SelectItem value="Unassigned">Unassigned</SelectItem>
-			  </SelectContent>
-		    </Select>
-		  </div>
+          {viewMode === "instructor" ? (
+            <div className="w-64">
+              <label className="text-sm text-muted-foreground">Instructor</label>
+              <Select value={instructor} onValueChange={setInstructor}>
+                <SelectTrigger>
+                  <SelectValue placeholder={instructors.length ? "Select an instructor" : "Upload a file first"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {instructors.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="w-64">
+              <label className="text-sm text-muted-foreground">Room</label>
+              <Select value={room} onValueChange={setRoom}>
+                <SelectTrigger>
+                  <SelectValue placeholder={rooms.length ? "Select a room" : "Upload a file first"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {r}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
 
           <div className="flex items-center gap-3">
             <div className="w-48">
@@ -1,50 +1,216 @@
+import { useState } from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { ValidationIssue, ValidationIssueCode } from "./types";
+import { ISSUE_CODE_LABELS } from "./validation";
+
+type GroupBy = "none" | "room" | "instructor";
+
+const ALL_TYPES = "all";
+
+const GROUP_BY_LABELS: Record<GroupBy, string> = {
+  none: "Severity",
+  room: "Room",
+  instructor: "Instructor",
+};
+
 type ValidationPanelProps = {
-  errors: string[];
-  infos: string[];
+  issues: ValidationIssue[];
+  checking: boolean;
   detectedHeaders: string[];
+  onSelectIssue: (issue: ValidationIssue) => void;
 };
 
+//Issues that point at rows can be shown on the schedule
+function canOpen(issue: ValidationIssue): boolean {
+  return issue.rowIndices.length > 0 && (!!issue.room || issue.instructors.length > 0);
+}
+
+function groupIssues(issues: ValidationIssue[], groupBy: GroupBy): [string, ValidationIssue[]][] {
+  const groups = new Map<string, ValidationIssue[]>();
+  const add = (name: string, issue: ValidationIssue) => {
+    if (!groups.has(name)) groups.set(name, []);
+    groups.get(name)!.push(issue);
+  };
+
+  for (const issue of issues) {
+    if (groupBy === "room") {
+      add(issue.room || "No room", issue);
+    } else if (issue.instructors.length) {
+      for (const name of issue.instructors) add(name, issue);
+    } else {
+      add("No instructor", issue);
+    }
+  }
+
+  return Array.from(groups.entries()).sort(([a], [b]) => a.localeCompare(b));
+}
+
 export default function ValidationPanel({
-  errors,
-  infos,
+  issues,
+  checking,
   detectedHeaders,
+  onSelectIssue,
 }: ValidationPanelProps) {
+  const [typeFilter, setTypeFilter] = useState<ValidationIssueCode | typeof ALL_TYPES>(ALL_TYPES);
+  const [groupBy, setGroupBy] = useState<GroupBy>("none");
+
+  const counts = new Map<ValidationIssueCode, number>();
+  for (const issue of issues) counts.set(issue.code, (counts.get(issue.code) ?? 0) + 1);
+
+  const filtered = typeFilter === ALL_TYPES ? issues : issues.filter(i => i.code === typeFilter);
+  const errors = filtered.filter(i => i.severity === "error");
+  const warnings = filtered.filter(i => i.severity === "warning");
+  const infos = filtered.filter(i => i.severity === "info");
+
+  function renderIssue(issue: ValidationIssue, idx: number) {
+    const color =
+      issue.severity === "error"
+        ? "text-red-700 dark:text-red-300"
+        : issue.severity === "warning"
+          ? "text-amber-700 dark:text-amber-300"
+          : "text-blue-700 dark:text-blue-300";
+
+    return (
+      <li key={idx} className={color}>
+        {canOpen(issue) ? (
+          <button
+            type="button"
+            className="text-left hover:underline"
+            title="Show on the schedule"
+            onClick={() => onSelectIssue(issue)}
+          >
+            {issue.message}
+          </button>
+        ) : (
+          issue.message
+        )}
+      </li>
+    );
+  }
+
   return (
     <div className="space-y-4">
-      {errors.length === 0 && infos.length === 0 ? (
-        <div className="rounded-md border border-green-500/40 bg-green-500/10 px-4 py-3 text-sm font-medium text-green-700 dark:text-green-300">
-          No error detected!
-        </div>
+      {checking && (
+        <div className="text-sm text-muted-foreground">Checking the schedule…</div>
+      )}
+
+      {issues.length === 0 ? (
+        !checking && (
+          <div className="rounded-md border border-green-500/40 bg-green-500/10 px-4 py-3 text-sm font-medium text-green-700 dark:text-green-300">
+            No error detected!
+          </div>
+        )
       ) : (
         <>
-          {errors.length > 0 && (
-            <div className="space-y-2">
-              <h2 className="text-lg font-semibold text-red-600 dark:text-red-400">
-                Errors
-              </h2>
-              <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3">
-                <ul className="list-disc pl-6 space-y-1 text-sm text-red-700 dark:text-red-300">
-                  {errors.map((msg, idx) => (
-                    <li key={idx}>{msg}</li>
-                  ))}
-                </ul>
-              </div>
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-64">
+              <label className="text-sm text-muted-foreground">Type</label>
+              <Select
+                value={typeFilter}
+                onValueChange={(v) => setTypeFilter(v as ValidationIssueCode | typeof ALL_TYPES)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_TYPES}>All types ({issues.length})</SelectItem>
+                  {(Object.keys(ISSUE_CODE_LABELS) as ValidationIssueCode[])
+                    .filter(code => counts.has(code))
+                    .map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {ISSUE_CODE_LABELS[code]} ({counts.get(code)})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
             </div>
-          )}
 
-          {infos.length > 0 && (
-            <div className="space-y-2">
-              <h2 className="text-lg font-semibold text-blue-600 dark:text-blue-400">
-                Notices
-              </h2>
-              <div className="rounded-md border border-blue-500/40 bg-blue-500/10 px-4 py-3">
-                <ul className="list-disc pl-6 space-y-1 text-sm text-blue-700 dark:text-blue-300">
-                  {infos.map((msg, idx) => (
-                    <li key={idx}>{msg}</li>
-                  ))}
-                </ul>
+            <div>
+              <label className="block text-sm text-muted-foreground">Group by</label>
+              <div className="inline-flex rounded-md border p-0.5">
+                {(Object.keys(GROUP_BY_LABELS) as GroupBy[]).map((g) => (
+                  <button
+                    key={g}
+                    type="button"
+                    className={`rounded px-3 py-1 text-sm transition-colors ${
+                      groupBy === g ? "bg-blue-600 text-white" : "hover:bg-muted"
+                    }`}
+                    onClick={() => setGroupBy(g)}
+                  >
+                    {GROUP_BY_LABELS[g]}
+                  </button>
+                ))}
               </div>
             </div>
+
+            <p className="text-xs text-muted-foreground">
+              Click an issue to show the classes involved on the schedule.
+            </p>
+          </div>
+
+          {groupBy === "none" ? (
+            <>
+              {errors.length > 0 && (
+                <div className="space-y-2">
+                  <h2 className="text-lg font-semibold text-red-600 dark:text-red-400">
+                    Errors
+                  </h2>
+                  <div className="rounded-md border border-red-500/40 bg-red-500/10 px-4 py-3">
+                    <ul className="list-disc pl-6 space-y-1 text-sm">
+                      {errors.map(renderIssue)}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              {warnings.length > 0 && (
+                <div className="space-y-2">
+                  <h2 className="text-lg font-semibold text-amber-600 dark:text-amber-400">
+                    Warnings
+                  </h2>
+                  <div className="rounded-md border border-amber-500/40 bg-amber-500/10 px-4 py-3">
+                    <ul className="list-disc pl-6 space-y-1 text-sm">
+                      {warnings.map(renderIssue)}
+                    </ul>
+                  </div>
+                </div>
+              )}
+
+              {infos.length > 0 && (
+                <div className="space-y-2">
+                  <h2 className="text-lg font-semibold text-blue-600 dark:text-blue-400">
+                    Notices
+                  </h2>
+                  <div className="rounded-md border border-blue-500/40 bg-blue-500/10 px-4 py-3">
+                    <ul className="list-disc pl-6 space-y-1 text-sm">
+                      {infos.map(renderIssue)}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </>
+          ) : (
+            groupIssues(filtered, groupBy).map(([name, list]) => (
+              <div key={name} className="space-y-2">
+                <h2 className="text-lg font-semibold">
+                  {name}{" "}
+                  <span className="text-sm font-normal text-muted-foreground">
+                    ({list.length} issue{list.length === 1 ? "" : "s"})
+                  </span>
+                </h2>
+                <div className="rounded-md border px-4 py-3">
+                  <ul className="list-disc pl-6 space-y-1 text-sm">
+                    {list.map(renderIssue)}
+                  </ul>
+                </div>
+              </div>
+            ))
           )}
         </>
       )}
@@ -59,4 +225,4 @@ export default function ValidationPanel({
       )}
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,82 @@
+import { ListChecks } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { ValidationRuleConfig, ValidationRuleId } from "./types";
+import { VALIDATION_RULES, getDefaultRuleConfig } from "./validationRules";
+
+type ValidationRulesPanelProps = {
+  config: ValidationRuleConfig;
+  setConfig: React.Dispatch<React.SetStateAction<ValidationRuleConfig>>;
+};
+
+export default function ValidationRulesPanel({ config, setConfig }: ValidationRulesPanelProps) {
+  function setEnabled(id: ValidationRuleId, enabled: boolean) {
+    setConfig(prev => ({ ...prev, [id]: { ...prev[id], enabled } }));
+  }
+
+  function setParam(id: ValidationRuleId, key: string, value: string) {
+    setConfig(prev => ({
+      ...prev,
+      [id]: { ...prev[id], params: { ...prev[id].params, [key]: value } },
+    }));
+  }
+
+  return (
+    <Card className="bg-card text-card-foreground">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <ListChecks className="w-4 h-4" />
+          <h2 className="text-base font-semibold">Validation rules</h2>
+          <span className="text-sm text-muted-foreground">
+            Choose which checks run and set their limits. Settings are saved in this browser.
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={() => setConfig(getDefaultRuleConfig())}
+          >
+            Reset to defaults
+          </Button>
+        </div>
+
+        <ul className="divide-y rounded-md border text-sm">
+          {VALIDATION_RULES.map((rule) => {
+            const setting = config[rule.id];
+            return (
+              <li key={rule.id} className="flex flex-wrap items-start gap-x-4 gap-y-2 px-3 py-2">
+                <label className="flex w-72 items-start gap-2">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={setting.enabled}
+                    onChange={(e) => setEnabled(rule.id, e.target.checked)}
+                  />
+                  <span>
+                    <span className="font-medium">{rule.label}</span>
+                    <span className="block text-xs text-muted-foreground">{rule.description}</span>
+                  </span>
+                </label>
+
+                {rule.params.map((param) => (
+                  <div key={param.key} className={param.type === "text" ? "min-w-48 flex-1" : "w-28"}>
+                    <label className="text-xs text-muted-foreground">{param.label}</label>
+                    <Input
+                      type={param.type}
+                      min={param.type === "number" ? 0 : undefined}
+                      value={setting.params[param.key] ?? ""}
+                      placeholder={param.placeholder}
+                      disabled={!setting.enabled}
+                      onChange={(e) => setParam(rule.id, param.key, e.target.value)}
+                    />
+                  </div>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,31 @@
+import type { ViewMode } from "./types";
+
+type ViewModeSwitchProps = {
+  viewMode: ViewMode;
+  setViewMode: (value: ViewMode) => void;
+};
+
+const VIEW_MODE_LABELS: Record<ViewMode, string> = {
+  room: "Single room",
+  rooms: "Rooms side by side",
+  instructor: "Instructor",
+};
+
+export default function ViewModeSwitch({ viewMode, setViewMode }: ViewModeSwitchProps) {
+  return (
+    <div className="inline-flex rounded-md border p-0.5">
+      {(Object.keys(VIEW_MODE_LABELS) as ViewMode[]).map((mode) => (
+        <button
+          key={mode}
+          type="button"
+          className={`rounded px-3 py-1 text-sm transition-colors ${
+            viewMode === mode ? "bg-blue-600 text-white" : "hover:bg-muted"
+          }`}
+          onClick={() => setViewMode(mode)}
+        >
+          {VIEW_MODE_LABELS[mode]}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { addDays, format } from "date-fns";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import type { DateMode } from "./types";
+import { getWeekStart } from "./utils";
+
+type WeekNavigatorProps = {
+  dateMode: DateMode;
+  setDateMode: (value: DateMode) => void;
+  weekStart: Date;
+  setWeekStart: (value: Date) => void;
+  termStart: Date | null;
+};
+
+export default function WeekNavigator({
+  dateMode,
+  setDateMode,
+  weekStart,
+  setWeekStart,
+  termStart,
+}: WeekNavigatorProps) {
+  const weekEnd = addDays(weekStart, 6);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="inline-flex rounded-md border p-0.5">
+        <button
+          type="button"
+          className={`rounded px-3 py-1 text-sm transition-colors ${
+            dateMode === "weekly" ? "bg-blue-600 text-white" : "hover:bg-muted"
+          }`}
+          onClick={() => setDateMode("weekly")}
+        >
+          Weekly pattern
+        </button>
+        <button
+          type="button"
+          className={`rounded px-3 py-1 text-sm transition-colors ${
+            dateMode === "dated" ? "bg-blue-600 text-white" : "hover:bg-muted"
+          }`}
+          onClick={() => setDateMode("dated")}
+        >
+          Calendar week
+        </button>
+      </div>
+
+      {dateMode === "dated" && (
+        <>
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            aria-label="Previous week"
+            onClick={() => setWeekStart(addDays(weekStart, -7))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+
+          <span className="min-w-44 text-center text-sm font-medium">
+            {format(weekStart, "MMM d")} – {format(weekEnd, "MMM d, yyyy")}
+          </span>
+
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8"
+            aria-label="Next week"
+            onClick={() => setWeekStart(addDays(weekStart, 7))}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+
+          <Input
+            type="date"
+            className="h-8 w-40"
+            aria-label="Jump to date"
+            value={format(weekStart, "yyyy-MM-dd")}
+            onChange={(e) => {
+              const [y, m, d] = e.target.value.split("-").map(Number);
+              if (y && m && d) setWeekStart(getWeekStart(new Date(y, m - 1, d)));
+            }}
+          />
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setWeekStart(getWeekStart(new Date()))}
+          >
+            This week
+          </Button>
+
+          {termStart && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setWeekStart(getWeekStart(termStart))}
+            >
+              First week of term
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import { addDays, format, startOfDay } from "date-fns";
+import { ACADEMIC_CALENDAR_STORAGE_KEY } from "./constants";
+import type { CalendarEntry, CalendarEntryType, Row } from "./types";
+import { normalizeDays, parseExcelDate, pickColumn, WEEKDAY_COLUMNS } from "./utils";
+
+const WEEKDAY_NAMES: Record<string, string> = {
+  sun: "U",
+  mon: "M",
+  tue: "T",
+  wed: "W",
+  thu: "R",
+  fri: "F",
+  sat: "S",
+};
+
+const WEEKDAY_LONG_NAMES: Record<string, string> = {
+  U: "Sunday",
+  M: "Monday",
+  T: "Tuesday",
+  W: "Wednesday",
+  R: "Thursday",
+  F: "Friday",
+  S: "Saturday",
+};
+
+export function toDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+export function dayCodeForDate(date: Date): string {
+  return WEEKDAY_COLUMNS[date.getDay()];
+}
+
+//Accepts "Friday", "Fri", "F" or "Th" style values
+export function parseWeekday(value: string): string | null {
+  const s = value.trim().toLowerCase();
+  if (!s) return null;
+  const byName = WEEKDAY_NAMES[s.slice(0, 3)];
+  if (byName) return byName;
+  const codes = normalizeDays(value);
+  return codes.length === 1 ? codes[0] : null;
+}
+
+function inferEntryType(value: string): CalendarEntryType {
+  const s = value.toLowerCase();
+  if (/make\s*-?\s*up/.test(s)) return "makeup";
+  if (s.includes("break") || s.includes("recess")) return "break";
+  return "holiday";
+}
+
+//Reads rows with Type, Label, Start Date (or Date), End Date and Follows columns
+export function parseCalendarRecords(records: Record<string, unknown>[]): {
+  entries: CalendarEntry[];
+  errors: string[];
+} {
+  const entries: CalendarEntry[] = [];
+  const errors: string[] = [];
+
+  records.forEach((record, idx) => {
+    const label = String(pickColumn(record, ["label", "name", "description", "event"]) || "").trim();
+    const typeText = String(pickColumn(record, ["type", "kind", "category"]) || "");
+    const start = parseExcelDate(pickColumn(record, ["start date", "date", "start"]));
+    const end = parseExcelDate(pickColumn(record, ["end date", "end"])) ?? start;
+    const follows = String(pickColumn(record, ["follows", "follows day", "schedule", "follows schedule"]) || "");
+
+    if (!start || !end) {
+      errors.push(`Calendar row ${idx + 2}: missing or invalid date`);
+      return;
+    }
+
+    const type = inferEntryType(typeText || label);
+    const followsDay = parseWeekday(follows) ?? undefined;
+
+    if (type === "makeup" && !followsDay) {
+      errors.push(`Calendar row ${idx + 2}: makeup day "${label}" does not say which weekday it follows`);
+      return;
+    }
+
+    entries.push({
+      type,
+      label: label || (type === "makeup" ? "Makeup day" : type === "break" ? "Break" : "Holiday"),
+      startDate: toDateKey(start),
+      endDate: toDateKey(end < start ? start : end),
+      followsDay: type === "makeup" ? followsDay : undefined,
+    });
+  });
+
+  return { entries, errors };
+}
+
+function coversDate(entry: CalendarEntry, key: string): boolean {
+  return entry.startDate <= key && key <= entry.endDate;
+}
+
+export function getClosure(calendar: CalendarEntry[], date: Date): CalendarEntry | null {
+  const key = toDateKey(date);
+  return calendar.find(e => e.type !== "makeup" && coversDate(e, key)) ?? null;
+}
+
+export function getMakeupDay(calendar: CalendarEntry[], date: Date): CalendarEntry | null {
+  const key = toDateKey(date);
+  return calendar.find(e => e.type === "makeup" && coversDate(e, key)) ?? null;
+}
+
+//The weekday whose schedule runs on this date (a makeup day swaps it)
+export function getEffectiveDayCode(calendar: CalendarEntry[], date: Date): string {
+  return getMakeupDay(calendar, date)?.followsDay ?? dayCodeForDate(date);
+}
+
+//Every date the row actually meets, skipping closed days and honouring makeup days
+export function expandMeetingDates(row: Row, calendar: CalendarEntry[]): Set<string> {
+  const out = new Set<string>();
+  const start = parseExcelDate(row.startDate);
+  const end = parseExcelDate(row.endDate);
+  if (!start || !end) return out;
+
+  const days = new Set(normalizeDays(row.daysMet));
+  if (!days.size) return out;
+
+  const last = startOfDay(end);
+  for (let d = startOfDay(start); d <= last; d = addDays(d, 1)) {
+    if (!days.has(getEffectiveDayCode(calendar, d))) continue;
+    if (getClosure(calendar, d)) continue;
+    out.add(toDateKey(d));
+  }
+
+  return out;
+}
+
+export type CalendarOccurrence = {
+  dayCode: string;
+  date: Date;
+  closedReason?: string;
+  makeupFor?: string;
+};
+
+//Real dates in the given week on which the row meets, bounded by its Start/End Date.
+//Closed days are kept but flagged so the grid can show what was cancelled.
+export function generateOccurrencesInWeek(
+  row: Row,
+  weekStart: Date,
+  calendar: CalendarEntry[]
+): CalendarOccurrence[] {
+  const start = parseExcelDate(row.startDate);
+  const end = parseExcelDate(row.endDate);
+  if (!start || !end) return [];
+
+  const first = startOfDay(start);
+  const last = startOfDay(end);
+  const days = new Set(normalizeDays(row.daysMet));
+  const out: CalendarOccurrence[] = [];
+
+  for (let i = 0; i < 7; i++) {
+    const date = addDays(weekStart, i);
+    if (date < first || date > last) continue;
+
+    const makeup = getMakeupDay(calendar, date);
+    const effective = makeup?.followsDay ?? dayCodeForDate(date);
+    if (!days.has(effective)) continue;
+
+    out.push({
+      dayCode: dayCodeForDate(date),
+      date,
+      closedReason: getClosure(calendar, date)?.label,
+      makeupFor: makeup ? `${makeup.label} (${WEEKDAY_LONG_NAMES[effective]} schedule)` : undefined,
+    });
+  }
+
+  return out;
+}
+
+export function loadAcademicCalendar(): CalendarEntry[] {
+  try {
+    const raw = localStorage.getItem(ACADEMIC_CALENDAR_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveAcademicCalendar(calendar: CalendarEntry[]) {
+  localStorage.setItem(ACADEMIC_CALENDAR_STORAGE_KEY, JSON.stringify(calendar));
+}
@@ -0,0 +1,145 @@
+import { addDays, parse, startOfDay } from "date-fns";
+import { expandMeetingDates, getClosure, getEffectiveDayCode, toDateKey } from "./academicCalendar";
+import { getMaxEnrollment } from "./roomInventory";
+import type { CalendarEntry, RoomInfo, Row } from "./types";
+import {
+  distinct,
+  normalizeDays,
+  parseExcelDate,
+  parseTimeOnDate,
+  timeRangesOverlap,
+  timeToMinutes,
+} from "./utils";
+
+export type AvailabilityQuery = {
+  days: string[];
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd
+  minCapacity: number | null;
+};
+
+export type FreeRoom = {
+  room: string;
+  capacity: number | null; // inventory seats, else the largest Max Enrollment booked in the room
+  spareSeats: number | null; // capacity above the requested minimum
+  idleMinutes: number | null; // closest booking before or after the slot on the requested days
+};
+
+//All times are placed on one reference day so only the clock time is compared
+const REFERENCE_DAY = new Date(2000, 0, 3);
+
+function parseDateKey(value: string): Date | null {
+  if (!value) return null;
+  const d = parse(value, "yyyy-MM-dd", REFERENCE_DAY);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+//Dates in the range that fall on a requested weekday and are not closed
+function expandQueryDates(query: AvailabilityQuery, calendar: CalendarEntry[]): Set<string> {
+  const out = new Set<string>();
+  const start = parseDateKey(query.startDate);
+  const end = parseDateKey(query.endDate);
+  if (!start || !end) return out;
+
+  const days = new Set(query.days);
+  for (let d = startOfDay(start); d <= end; d = addDays(d, 1)) {
+    if (!days.has(getEffectiveDayCode(calendar, d))) continue;
+    if (getClosure(calendar, d)) continue;
+    out.add(toDateKey(d));
+  }
+  return out;
+}
+
+//Seat counts from the room inventory; rooms missing from it fall back to the
+//largest Max Enrollment scheduled there
+export function getRoomCapacities(rows: Row[], inventory: RoomInfo[]): Map<string, number> {
+  const out = new Map<string, number>();
+  for (const r of rows) {
+    const seats = getMaxEnrollment(r);
+    if (!r.room || seats === null || seats <= 0) continue;
+    out.set(r.room, Math.max(out.get(r.room) ?? 0, seats));
+  }
+  for (const info of inventory) {
+    if (info.capacity !== null) out.set(info.room, info.capacity);
+  }
+  return out;
+}
+
+//Rooms with no scheduled booking that meets on any requested date and overlaps the time window.
+//With a minimum seat count, rooms of unknown capacity are left out.
+//Ranked by fit: the fewest spare seats first, then rooms whose neighbouring bookings
+//sit closest to the slot, so long empty stretches elsewhere stay free.
+export function findFreeRooms(
+  rows: Row[],
+  query: AvailabilityQuery,
+  calendar: CalendarEntry[],
+  inventory: RoomInfo[] = []
+): FreeRoom[] {
+  const queryDates = expandQueryDates(query, calendar);
+  const queryStart = parseTimeOnDate(REFERENCE_DAY, query.startTime);
+  const queryEnd = parseTimeOnDate(REFERENCE_DAY, query.endTime);
+  if (!queryDates.size || queryStart >= queryEnd) return [];
+
+  const rangeStart = parseDateKey(query.startDate)!;
+  const rangeEnd = parseDateKey(query.endDate)!;
+  const queryDays = new Set(query.days);
+
+  const busy = new Set<string>();
+  const idle = new Map<string, number>();
+
+  for (const r of rows) {
+    if (!r.room || r.status !== "Scheduled" || busy.has(r.room)) continue;
+
+    const start = parseExcelDate(r.startDate);
+    const end = parseExcelDate(r.endDate);
+    if (!start || !end || start > rangeEnd || end < rangeStart) continue;
+    if (!normalizeDays(r.daysMet).some(d => queryDays.has(d))) continue;
+
+    const rowStart = parseTimeOnDate(REFERENCE_DAY, r.startTime);
+    const rowEnd = parseTimeOnDate(REFERENCE_DAY, r.endTime);
+    if (isNaN(rowStart.getTime()) || isNaN(rowEnd.getTime()) || rowStart >= rowEnd) continue;
+
+    const dates = expandMeetingDates(r, calendar);
+    if (![...dates].some(d => queryDates.has(d))) continue;
+
+    if (timeRangesOverlap(rowStart, rowEnd, queryStart, queryEnd)) {
+      busy.add(r.room);
+      continue;
+    }
+
+    const gap =
+      rowEnd <= queryStart
+        ? timeToMinutes(queryStart) - timeToMinutes(rowEnd)
+        : timeToMinutes(rowStart) - timeToMinutes(queryEnd);
+    idle.set(r.room, Math.min(idle.get(r.room) ?? Infinity, gap));
+  }
+
+  const capacities = getRoomCapacities(rows, inventory);
+  const free: FreeRoom[] = [];
+  const allRooms = distinct([...rows.map(r => r.room), ...inventory.map(i => i.room)].filter(Boolean));
+
+  for (const room of allRooms) {
+    if (busy.has(room)) continue;
+
+    const capacity = capacities.get(room) ?? null;
+    if (query.minCapacity !== null && (capacity === null || capacity < query.minCapacity)) continue;
+
+    free.push({
+      room,
+      capacity,
+      spareSeats: query.minCapacity !== null && capacity !== null ? capacity - query.minCapacity : null,
+      idleMinutes: idle.get(room) ?? null,
+    });
+  }
+
+  const rank = (v: number | null) => (v === null ? Infinity : v);
+
+  return free.sort(
+    (a, b) =>
+      rank(a.spareSeats) - rank(b.spareSeats) ||
+      rank(a.idleMinutes) - rank(b.idleMinutes) ||
+      a.room.localeCompare(b.room)
+  );
+}
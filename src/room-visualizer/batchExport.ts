@@ -0,0 +1,76 @@
+import { strToU8, zipSync } from "fflate";
+import { createSchedulePdf, renderPng, serializeSvg, type SchedulePage } from "./scheduleExport";
+
+export type BatchFormat = "png" | "svg" | "pdf";
+
+export const BATCH_FORMAT_LABELS: Record<BatchFormat, string> = {
+  png: "PNG images (zip)",
+  svg: "SVG images (zip)",
+  pdf: "One PDF, a page per room",
+};
+
+type BatchExportInput = {
+  rooms: string[];
+  format: BatchFormat;
+  //null for rooms with nothing to show, which are left out
+  renderRoom: (room: string) => SchedulePage | null;
+  fileBaseFor: (room: string) => string;
+  onProgress: (done: number, total: number) => void;
+  signal: AbortSignal;
+};
+
+//Give the page a chance to paint progress and handle a Cancel click between rooms
+function nextTask(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+//Room names that differ only in punctuation sanitize to the same file name
+function uniqueName(files: Record<string, Uint8Array>, base: string, ext: string): string {
+  let name = `${base}.${ext}`;
+  for (let n = 2; name in files; n++) name = `${base}-${n}.${ext}`;
+  return name;
+}
+
+//Renders every room in turn. Resolves to a zip of images, a single PDF, or null when
+//no room had classes; rejects with an AbortError once the signal is aborted.
+export async function exportRooms({
+  rooms,
+  format,
+  renderRoom,
+  fileBaseFor,
+  onProgress,
+  signal,
+}: BatchExportInput): Promise<Blob | null> {
+  const files: Record<string, Uint8Array> = {};
+  const pdf = format === "pdf" ? await createSchedulePdf() : null;
+  let rendered = 0;
+
+  onProgress(0, rooms.length);
+  for (const [idx, room] of rooms.entries()) {
+    await nextTask();
+    signal.throwIfAborted();
+
+    const page = renderRoom(room);
+    if (page) {
+      rendered++;
+      if (pdf) {
+        await pdf.addPage(page);
+      } else if (format === "svg") {
+        files[uniqueName(files, fileBaseFor(room), "svg")] = strToU8(serializeSvg(page.schedule));
+      } else {
+        const png = await renderPng(page.schedule);
+        files[uniqueName(files, fileBaseFor(room), "png")] = new Uint8Array(await png.arrayBuffer());
+      }
+    }
+
+    onProgress(idx + 1, rooms.length);
+  }
+
+  signal.throwIfAborted();
+  if (rendered === 0) return null;
+  if (pdf) return pdf.toBlob();
+
+  //PNGs are already compressed, so they are stored as-is
+  const zipped = zipSync(files, { level: format === "png" ? 0 : 6 });
+  return new Blob([zipped], { type: "application/zip" });
+}
@@ -0,0 +1,68 @@
+import { COLOR_OVERRIDES_STORAGE_KEY, ENROLLMENT_BANDS } from "./constants";
+import { BLANK_FILTER_VALUE, getSubject } from "./rowFilters";
+import type { ColorDimension, ColorOverrides, SessionInstance, ViewMode } from "./types";
+import { distinct } from "./utils";
+
+export const COLOR_DIMENSIONS: { value: ColorDimension; label: string }[] = [
+  { value: "instructor", label: "Instructor" },
+  { value: "room", label: "Room" },
+  { value: "subject", label: "Subject" },
+  { value: "status", label: "Status" },
+  { value: "term", label: "Term" },
+  { value: "enrollment", label: "Enrollment" },
+];
+
+//"0–24 seats", "25–49 seats", ... "100+ seats"; a missing Max Enrollment is "Unknown"
+export function enrollmentBand(maxEnrollment: number | null): string {
+  if (maxEnrollment === null) return "Unknown";
+  let lower = 0;
+  for (const upper of ENROLLMENT_BANDS) {
+    if (maxEnrollment <= upper) return `${lower}–${upper} seats`;
+    lower = upper + 1;
+  }
+  return `${lower}+ seats`;
+}
+
+//The legend entry a block belongs to
+export function colorKey(session: SessionInstance, dimension: ColorDimension): string {
+  switch (dimension) {
+    case "instructor":
+      return session.instructor || "Unknown";
+    case "room":
+      return session.room || BLANK_FILTER_VALUE;
+    case "subject":
+      return getSubject(session.courseSection) || BLANK_FILTER_VALUE;
+    case "status":
+      return session.status || BLANK_FILTER_VALUE;
+    case "term":
+      return session.term || BLANK_FILTER_VALUE;
+    case "enrollment":
+      return enrollmentBand(session.maxEnrollment);
+  }
+}
+
+//Every value on screen, in legend order; "0–24 seats" sorts before "100+ seats"
+export function getLegendItems(sessions: SessionInstance[], dimension: ColorDimension): string[] {
+  return distinct(sessions.map(s => colorKey(s, dimension))).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+}
+
+//One instructor's week colored by instructor would be a single color, so it shows rooms instead
+export function effectiveColorBy(colorBy: ColorDimension, viewMode: ViewMode): ColorDimension {
+  return viewMode === "instructor" && colorBy === "instructor" ? "room" : colorBy;
+}
+
+export function loadColorOverrides(): ColorOverrides {
+  try {
+    const raw = localStorage.getItem(COLOR_OVERRIDES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveColorOverrides(overrides: ColorOverrides) {
+  localStorage.setItem(COLOR_OVERRIDES_STORAGE_KEY, JSON.stringify(overrides));
+}
@@ -0,0 +1,147 @@
+import {
+  FIELD_ALIASES,
+  HEADER_MAP,
+  MAPPING_PROFILES_STORAGE_KEY,
+  ROW_FIELDS,
+} from "./constants";
+import type { ColumnMapping, MappingProfile, RowField } from "./types";
+
+const SUGGESTION_THRESHOLD = 0.6;
+
+function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function bigrams(s: string): string[] {
+  const compact = s.replace(/\s+/g, "");
+  const out: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) out.push(compact.slice(i, i + 2));
+  return out;
+}
+
+//Dice coefficient over character bigrams, boosted when every alias word appears in the header
+export function headerSimilarity(header: string, alias: string): number {
+  const a = normalizeHeader(header);
+  const b = normalizeHeader(alias);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  const pool = [...bGrams];
+  let shared = 0;
+  for (const g of aGrams) {
+    const idx = pool.indexOf(g);
+    if (idx !== -1) {
+      shared++;
+      pool.splice(idx, 1);
+    }
+  }
+  const dice = aGrams.length + bGrams.length
+    ? (2 * shared) / (aGrams.length + bGrams.length)
+    : 0;
+
+  const headerTokens = new Set(a.split(" "));
+  const aliasTokens = b.split(" ");
+  const containment =
+    aliasTokens.filter(t => headerTokens.has(t)).length / aliasTokens.length;
+
+  return Math.max(dice, containment === 1 ? 0.9 : containment * 0.6);
+}
+
+//Exact, case-insensitive matches against HEADER_MAP
+export function autoMapHeaders(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const header of headers) {
+    const field = HEADER_MAP[String(header).trim().toLowerCase()];
+    if (field && !mapping[field]) mapping[field] = header;
+  }
+  return mapping;
+}
+
+//Start from exact matches, then fill the gaps with the most similar unused headers
+export function suggestMapping(headers: string[]): {
+  mapping: ColumnMapping;
+  scores: Partial<Record<RowField, number>>;
+} {
+  const mapping = autoMapHeaders(headers);
+  const scores: Partial<Record<RowField, number>> = {};
+  for (const field of Object.keys(mapping) as RowField[]) scores[field] = 1;
+
+  const used = new Set(Object.values(mapping));
+  const candidates: { field: RowField; header: string; score: number }[] = [];
+
+  for (const { field } of ROW_FIELDS) {
+    if (mapping[field]) continue;
+    for (const header of headers) {
+      if (used.has(header)) continue;
+      const score = Math.max(...FIELD_ALIASES[field].map(alias => headerSimilarity(header, alias)));
+      if (score >= SUGGESTION_THRESHOLD) candidates.push({ field, header, score });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+
+  for (const { field, header, score } of candidates) {
+    if (mapping[field] || used.has(header)) continue;
+    mapping[field] = header;
+    scores[field] = score;
+    used.add(header);
+  }
+
+  return { mapping, scores };
+}
+
+//Labels of required fields with no usable source header
+export function findUnmappedFields(mapping: ColumnMapping, headers: string[]): string[] {
+  return ROW_FIELDS
+    .filter(({ field, optional }) => {
+      if (optional) return false;
+      const header = mapping[field];
+      return !header || !headers.includes(header);
+    })
+    .map(({ label }) => label);
+}
+
+export function loadMappingProfiles(): MappingProfile[] {
+  try {
+    const raw = localStorage.getItem(MAPPING_PROFILES_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveMappingProfile(profile: MappingProfile): MappingProfile[] {
+  const profiles = [
+    ...loadMappingProfiles().filter(p => p.name !== profile.name),
+    profile,
+  ];
+  localStorage.setItem(MAPPING_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+export function deleteMappingProfile(name: string): MappingProfile[] {
+  const profiles = loadMappingProfiles().filter(p => p.name !== name);
+  localStorage.setItem(MAPPING_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  return profiles;
+}
+
+//A profile applies when every header it maps from is present in the upload
+export function findMatchingProfile(
+  profiles: MappingProfile[],
+  headers: string[]
+): MappingProfile | null {
+  const matches = profiles.filter(p =>
+    findUnmappedFields(p.mapping, headers).length === 0
+  );
+  if (!matches.length) return null;
+
+  //Prefer the profile whose recorded header set overlaps the upload the most
+  const overlap = (p: MappingProfile) => p.headers.filter(h => headers.includes(h)).length;
+  return matches.sort((a, b) => overlap(b) - overlap(a))[0];
+}
@@ -0,0 +1,20 @@
+import { bench, describe } from "vitest";
+import { findConflictIssues } from "./conflicts";
+import { findConflictIssuesPairwise, generateRows } from "./conflicts.fixtures";
+
+const rows = generateRows(15_000);
+
+describe("conflicts on 15,000 generated rows", () => {
+  bench("sweep-line", () => {
+    findConflictIssues(rows, []);
+  });
+
+  //Several seconds per run, so it is timed once
+  bench(
+    "pairwise scan",
+    () => {
+      findConflictIssuesPairwise(rows);
+    },
+    { iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 }
+  );
+});
@@ -0,0 +1,109 @@
+import { formatMinutes } from "./scheduleEditing";
+import type { Row, ValidationIssue } from "./types";
+import { normalizeDays, timeToMinutes } from "./utils";
+import { getSchedulableRows, offeringIdsOf } from "./validation";
+
+//Small seeded generator so every run checks the same file
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const TERMS = [
+  { term: "202611 (Spring)", parts: [["1/12/2026", "5/8/2026"], ["1/12/2026", "3/6/2026"], ["3/16/2026", "5/8/2026"]] },
+  { term: "202631 (Fall)", parts: [["8/24/2026", "12/11/2026"]] },
+];
+const DAY_PATTERNS = ["MWF", "TR", "MW", "M", "T", "W", "R", "F", "S"];
+const STATUSES = ["Scheduled", "Scheduled", "Scheduled", "Scheduled", "Cancelled", "Unassigned"];
+
+//Rows with the same room, days, times and dates would be read as co-taught
+//sections, which the old scan did not know about, so none are generated
+export function generateRows(count: number): Row[] {
+  const random = mulberry32(20260112);
+  const pick = <T,>(items: T[]) => items[Math.floor(random() * items.length)];
+  const seen = new Set<string>();
+  const rows: Row[] = [];
+
+  while (rows.length < count) {
+    const { term, parts } = pick(TERMS);
+    const [startDate, endDate] = pick(parts);
+    const room = `BLDG${Math.floor(random() * 12)} ${100 + Math.floor(random() * 15)}`;
+    const daysMet = pick(DAY_PATTERNS);
+    const start = 7 * 60 + Math.floor(random() * 150) * 5;
+    const end = start + 50 + Math.floor(random() * 19) * 5;
+
+    const key = [term, startDate, endDate, room, daysMet, start, end].join("|");
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    rows.push({
+      courseSection: `SUBJ ${100 + (rows.length % 400)}/${500 + (rows.length % 50)}`,
+      courseOfferingId: String(10_000 + rows.length),
+      startDate,
+      endDate,
+      daysMet,
+      startTime: formatMinutes(start),
+      endTime: formatMinutes(end),
+      instructor: `Instructor ${Math.floor(random() * 700)}`,
+      room,
+      status: pick(STATUSES),
+      term,
+    });
+  }
+  return rows;
+}
+
+//The pairwise scan findConflictIssues replaced, without an academic calendar.
+//Times are compared by time of day, as the sweep-line does.
+export function findConflictIssuesPairwise(rows: Row[]): ValidationIssue[] {
+  const sched = getSchedulableRows(rows);
+  const sheetSuffix = (r: Row) => (r.sourceSheet ? `, sheet "${r.sourceSheet}"` : "");
+  const days = sched.map(r => new Set(normalizeDays(r.daysMet)));
+  const minutes = sched.map(r => [timeToMinutes(r.startTimeObj), timeToMinutes(r.endTimeObj)]);
+  const issues: ValidationIssue[] = [];
+
+  for (let i = 0; i < sched.length; i++) {
+    for (let j = i + 1; j < sched.length; j++) {
+      const a = sched[i];
+      const b = sched[j];
+
+      if (a.term !== b.term) continue;
+      if (a.status !== "Scheduled" || b.status !== "Scheduled") continue;
+      if (![...days[i]].some(day => days[j].has(day))) continue;
+      if (!(a.startDateObj <= b.endDateObj && b.startDateObj <= a.endDateObj)) continue;
+      if (!(minutes[i][0] < minutes[j][1] && minutes[j][0] < minutes[i][1])) continue;
+
+      const pair = {
+        rowIndices: [a.rowIndex, b.rowIndex],
+        offeringIds: offeringIdsOf([a.row, b.row]),
+        term: a.term,
+        room: a.room,
+        severity: "error" as const,
+      };
+
+      if (a.room && b.room && a.room === b.room && a.instructor !== b.instructor) {
+        issues.push({
+          ...pair,
+          code: "room-conflict",
+          message: `Room conflict in ${a.term}: room ${a.room} has overlapping scheduled classes "${a.courseSection}" (${a.instructor}${sheetSuffix(a.row)}) and "${b.courseSection}" (${b.instructor}${sheetSuffix(b.row)}).`,
+          instructors: [a.instructor, b.instructor],
+        });
+      }
+
+      if (a.instructor === b.instructor && a.room && b.room && a.room !== b.room) {
+        issues.push({
+          ...pair,
+          code: "instructor-conflict",
+          message: `Instructor conflict in ${a.term}: ${a.instructor} has overlapping scheduled classes in different rooms (${a.room}${sheetSuffix(a.row)} and ${b.room}${sheetSuffix(b.row)}).`,
+          instructors: [a.instructor],
+        });
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from "vitest";
+import { findConflictIssues } from "./conflicts";
+import { findConflictIssuesPairwise, generateRows } from "./conflicts.fixtures";
+
+describe("findConflictIssues", () => {
+  it("matches the pairwise scan on 1,500 generated rows", () => {
+    const rows = generateRows(1_500);
+    const issues = findConflictIssues(rows, []);
+
+    expect(issues.length).toBeGreaterThan(0);
+    expect(issues).toEqual(findConflictIssuesPairwise(rows));
+  });
+});
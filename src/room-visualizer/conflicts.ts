@@ -0,0 +1,180 @@
+import { expandMeetingDates } from "./academicCalendar";
+import { findCrossListGroups } from "./crossListing";
+import type { CalendarEntry, Row, ValidationIssue, ValidationSchedRow } from "./types";
+import { distinct, normalizeDays, timeToMinutes } from "./utils";
+import { getSchedulableRows, offeringIdsOf } from "./validation";
+
+type ConflictKind = "room-conflict" | "instructor-conflict";
+
+type Interval = {
+  index: number; // position in the schedulable rows
+  start: number; // minutes after midnight
+  end: number;
+};
+
+//Walk intervals in start order, keeping the ones still running; each new interval
+//overlaps exactly the intervals that are still active when it starts
+function sweepOverlaps(intervals: Interval[], onPair: (a: number, b: number) => void) {
+  const sorted = [...intervals].sort((a, b) => a.start - b.start || a.end - b.end);
+  let active: Interval[] = [];
+
+  for (const current of sorted) {
+    active = active.filter(a => a.end > current.start);
+    for (const other of active) onPair(other.index, current.index);
+    active.push(current);
+  }
+}
+
+//Scheduled rows that meet at the same time in the same room (different instructors)
+//or with the same instructor (different rooms). Rows are bucketed by term, weekday and
+//room or instructor, so only rows that could possibly clash are ever compared.
+//Cross-listed sections count as one meeting: they never conflict with each other,
+//and a clash with the group is reported once.
+export function findConflictIssues(rows: Row[], calendar: CalendarEntry[]): ValidationIssue[] {
+  const sched = getSchedulableRows(rows).filter(r => r.status === "Scheduled");
+
+  const crossListGroups = findCrossListGroups(rows);
+  const groupOf = (i: number) => crossListGroups.get(sched[i].rowIndex) ?? `row-${sched[i].rowIndex}`;
+  const groupMembers = new Map<string, ValidationSchedRow[]>();
+  sched.forEach((r, i) => {
+    const group = groupOf(i);
+    if (!groupMembers.has(group)) groupMembers.set(group, []);
+    groupMembers.get(group)!.push(r);
+  });
+
+  const buckets = new Map<string, Interval[]>();
+  const addToBucket = (key: string, interval: Interval) => {
+    if (!buckets.has(key)) buckets.set(key, []);
+    buckets.get(key)!.push(interval);
+  };
+
+  sched.forEach((r, index) => {
+    const interval = {
+      index,
+      start: timeToMinutes(r.startTimeObj),
+      end: timeToMinutes(r.endTimeObj),
+    };
+    for (const day of new Set(normalizeDays(r.daysMet))) {
+      if (r.room) addToBucket(`room|${r.term}|${r.room}|${day}`, interval);
+      addToBucket(`instructor|${r.term}|${r.instructor}|${day}`, interval);
+    }
+  });
+
+  //Pairs meeting on several shared days are found once per day
+  const candidates = new Map<string, { a: number; b: number; kind: ConflictKind }>();
+  for (const [key, intervals] of buckets) {
+    const kind: ConflictKind = key.startsWith("room|") ? "room-conflict" : "instructor-conflict";
+    sweepOverlaps(intervals, (x, y) => {
+      if (groupOf(x) === groupOf(y)) return;
+      const a = Math.min(x, y);
+      const b = Math.max(x, y);
+      candidates.set(`${kind}|${a}|${b}`, { a, b, kind });
+    });
+  }
+
+  const meetingDates = new Map<Row, Set<string>>();
+  const meetingDatesFor = (r: Row) => {
+    let dates = meetingDates.get(r);
+    if (!dates) {
+      dates = expandMeetingDates(r, calendar);
+      meetingDates.set(r, dates);
+    }
+    return dates;
+  };
+
+  const confirmed = [...candidates.values()].filter(({ a: ai, b: bi, kind }) => {
+    const a = sched[ai];
+    const b = sched[bi];
+
+    const dateRangesOverlap =
+      a.startDateObj <= b.endDateObj && b.startDateObj <= a.endDateObj;
+    if (!dateRangesOverlap) return false;
+
+    if (kind === "room-conflict" && a.instructor === b.instructor) return false;
+    if (kind === "instructor-conflict" && (!a.room || !b.room || a.room === b.room)) return false;
+
+    //With an academic calendar, the two must actually meet on a common open day
+    if (calendar.length > 0) {
+      const aDates = meetingDatesFor(a.row);
+      const bDates = meetingDatesFor(b.row);
+      if (![...aDates].some(d => bDates.has(d))) return false;
+    }
+
+    return true;
+  });
+
+  //Same order as a row-by-row scan: by first row, then second, room before instructor
+  confirmed.sort(
+    (x, y) =>
+      x.a - y.a ||
+      x.b - y.b ||
+      (x.kind === y.kind ? 0 : x.kind === "room-conflict" ? -1 : 1)
+  );
+
+  //One issue per pair of meetings, however many cross-listed rows each has
+  const reported = new Set<string>();
+  const issues: ValidationIssue[] = [];
+
+  for (const { a, b, kind } of confirmed) {
+    const [ga, gb] = [groupOf(a), groupOf(b)].sort();
+    const key = `${kind}|${ga}|${gb}`;
+    if (reported.has(key)) continue;
+    reported.add(key);
+
+    issues.push(
+      buildConflictIssue(
+        sched[a],
+        sched[b],
+        groupMembers.get(groupOf(a))!,
+        groupMembers.get(groupOf(b))!,
+        kind
+      )
+    );
+  }
+
+  return issues;
+}
+
+//A meeting's label lists every cross-listed course and instructor in it
+function describeMeeting(members: ValidationSchedRow[]) {
+  return {
+    courseSection: distinct(members.map(m => m.courseSection)).join(" / "),
+    instructor: distinct(members.map(m => m.instructor)).join(", "),
+  };
+}
+
+function buildConflictIssue(
+  a: ValidationSchedRow,
+  b: ValidationSchedRow,
+  aMembers: ValidationSchedRow[],
+  bMembers: ValidationSchedRow[],
+  kind: ConflictKind
+): ValidationIssue {
+  const members = [...aMembers, ...bMembers];
+  const sheetSuffix = (r: Row) => (r.sourceSheet ? `, sheet "${r.sourceSheet}"` : "");
+  const pair = {
+    rowIndices: members.map(m => m.rowIndex),
+    offeringIds: offeringIdsOf(members.map(m => m.row)),
+    term: a.term,
+    room: a.room,
+    severity: "error" as const,
+  };
+
+  if (kind === "room-conflict") {
+    const first = describeMeeting(aMembers);
+    const second = describeMeeting(bMembers);
+    return {
+      ...pair,
+      code: kind,
+      message: `Room conflict in ${a.term}: room ${a.room} has overlapping scheduled classes "${first.courseSection}" (${first.instructor}${sheetSuffix(a.row)}) and "${second.courseSection}" (${second.instructor}${sheetSuffix(b.row)}).`,
+      instructors: distinct(members.map(m => m.instructor)),
+    };
+  }
+
+  return {
+    ...pair,
+    code: kind,
+    message: `Instructor conflict in ${a.term}: ${a.instructor} has overlapping scheduled classes in different rooms (${a.room}${sheetSuffix(a.row)} and ${b.room}${sheetSuffix(b.row)}).`,
+    instructors: [a.instructor],
+  };
+}
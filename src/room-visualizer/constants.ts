@@ -1,17 +1,37 @@
+import type { RowField } from "./types";
+
+//Okabe-Ito (safe for common color blindness) first, then Tableau 10 and a few extras.
+//Values pick a color by hash, so a longer palette means fewer shared colors.
 export const COLOR_PALETTE = [
-  "#ef4444",
-  "#3b82f6",
-  "#10b981",
-  "#f59e0b",
-  "#8b5cf6",
-  "#ec4899",
-  "#14b8a6",
-  "#f97316",
-  "#22c55e",
-  "#6366f1",
+  "#e69f00",
+  "#56b4e9",
+  "#009e73",
+  "#f0e442",
+  "#0072b2",
+  "#d55e00",
+  "#cc79a7",
+  "#4e79a7",
+  "#f28e2b",
+  "#e15759",
+  "#76b7b2",
+  "#59a14f",
+  "#edc948",
+  "#b07aa1",
+  "#ff9da7",
+  "#9c755f",
+  "#bab0ac",
+  "#8c564b",
+  "#17becf",
+  "#bcbd22",
 ];
 
-export const HEADER_MAP: Record<string, string> = {
+//Upper seat limit of each enrollment band used for coloring; larger sections fall in the last
+export const ENROLLMENT_BANDS = [24, 49, 99];
+
+//Back-to-back classes in different buildings closer than this are flagged
+export const BACK_TO_BACK_MINUTES = 15;
+
+export const HEADER_MAP: Record<string, RowField> = {
   "course/section": "courseSection",
   "course section": "courseSection",
   "course offering id": "courseOfferingId",
@@ -25,6 +45,11 @@ export const HEADER_MAP: Record<string, string> = {
   "max enrollment": "maxEnrollment",
   "status": "status",
   "term": "term",
+  "cross list": "crossListId",
+  "cross-list": "crossListId",
+  "crosslist": "crossListId",
+  "cross list id": "crossListId",
+  "required features": "requiredFeatures",
 };
 
 export const REQUIRED_HEADERS = [
@@ -40,4 +65,63 @@ export const REQUIRED_HEADERS = [
   "Max Enrollment",
   "Status",
   "Term",
-];
\ No newline at end of file
+];
+
+//Optional fields are read when present but never block an import
+export const ROW_FIELDS: { field: RowField; label: string; optional?: boolean }[] = [
+  { field: "courseSection", label: "Course/Section" },
+  { field: "courseOfferingId", label: "Course Offering Id" },
+  { field: "startDate", label: "Start Date" },
+  { field: "endDate", label: "End Date" },
+  { field: "daysMet", label: "Days Met" },
+  { field: "startTime", label: "Start Time" },
+  { field: "endTime", label: "End Time" },
+  { field: "instructor", label: "Instructor" },
+  { field: "room", label: "Room" },
+  { field: "maxEnrollment", label: "Max Enrollment" },
+  { field: "status", label: "Status" },
+  { field: "term", label: "Term" },
+  { field: "crossListId", label: "Cross-list", optional: true },
+  { field: "requiredFeatures", label: "Required Features", optional: true },
+];
+
+//Extra header spellings used to suggest a mapping for non-standard exports
+export const FIELD_ALIASES: Record<RowField, string[]> = {
+  courseSection: ["course section", "course", "section", "class", "course number"],
+  courseOfferingId: ["course offering id", "offering id", "crn", "class number", "section id"],
+  startDate: ["start date", "begin date", "first day", "term start"],
+  endDate: ["end date", "last day", "finish date", "term end"],
+  daysMet: ["days met", "days", "meeting days", "day pattern", "meeting pattern"],
+  startTime: ["start time", "begin time", "time start", "from"],
+  endTime: ["end time", "finish time", "time end", "to"],
+  instructor: ["instructor", "instructor name", "faculty", "teacher", "professor"],
+  room: ["room", "bldg room", "building room", "location", "facility"],
+  maxEnrollment: ["max enrollment", "enrollment cap", "capacity", "max enroll", "seats"],
+  status: ["status", "section status", "schedule status"],
+  term: ["term", "semester", "session", "term code"],
+  crossListId: ["cross list", "cross list group", "crosslisting", "combined section", "combined with", "meets with"],
+  requiredFeatures: ["required features", "room features", "features needed", "room requirements"],
+};
+
+export const MAPPING_PROFILES_STORAGE_KEY = "rsv-mapping-profiles";
+
+export const ACADEMIC_CALENDAR_STORAGE_KEY = "rsv-academic-calendar";
+
+export const ROOM_INVENTORY_STORAGE_KEY = "rsv-room-inventory";
+
+export const VALIDATION_RULES_STORAGE_KEY = "rsv-validation-rules";
+
+export const COLOR_OVERRIDES_STORAGE_KEY = "rsv-color-overrides";
+
+//Uploaded schedules and the view settings are kept in IndexedDB, which holds far more than local storage
+export const SAVED_DATA_DB_NAME = "rsv-saved-data";
+
+//Older uploads beyond this are dropped from the recent files list
+export const RECENT_FILES_LIMIT = 8;
+
+//Visible hours before the user moves the sliders
+export const DEFAULT_MIN_HOUR = 7;
+export const DEFAULT_MAX_HOUR = 22;
+
+//Minute grids a dragged block can snap to
+export const EDIT_SNAP_OPTIONS = [5, 10, 15, 30];
@@ -0,0 +1,74 @@
+import { format } from "date-fns";
+import type { Row } from "./types";
+import { normalizeDays, parseExcelDate, parseTimeOnDate, timeToMinutes } from "./utils";
+
+//All times are placed on one reference day so only the clock time is compared
+const REFERENCE_DAY = new Date(2000, 0, 3);
+
+//Same room, days, times and dates: the rows describe one class meeting
+function meetingKey(r: Row): string | null {
+  if (!r.room || !r.daysMet || !r.startTime || !r.endTime) return null;
+
+  const start = parseTimeOnDate(REFERENCE_DAY, r.startTime);
+  const end = parseTimeOnDate(REFERENCE_DAY, r.endTime);
+  const startDate = parseExcelDate(r.startDate);
+  const endDate = parseExcelDate(r.endDate);
+  if (isNaN(start.getTime()) || isNaN(end.getTime()) || !startDate || !endDate) return null;
+
+  return [
+    r.term || "",
+    r.room,
+    [...new Set(normalizeDays(r.daysMet))].sort().join(""),
+    timeToMinutes(start),
+    timeToMinutes(end),
+    format(startDate, "yyyy-MM-dd"),
+    format(endDate, "yyyy-MM-dd"),
+  ].join("|");
+}
+
+//Cross-listed and co-taught sections, keyed by row index. Rows join a group when they
+//share a Cross-list value within a term, or meet in the same room at exactly the same
+//days, times and dates. Rows that stand alone are not in the map.
+export function findCrossListGroups(rows: Row[]): Map<number, string> {
+  const parent = rows.map((_, idx) => idx);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const union = (a: number, b: number) => {
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent[Math.max(ra, rb)] = Math.min(ra, rb);
+  };
+
+  const firstByKey = new Map<string, number>();
+  const link = (key: string, idx: number) => {
+    const first = firstByKey.get(key);
+    if (first === undefined) firstByKey.set(key, idx);
+    else union(first, idx);
+  };
+
+  rows.forEach((r, idx) => {
+    const crossListId = String(r.crossListId ?? "").trim();
+    if (crossListId) link(`column|${r.term || ""}|${crossListId.toLowerCase()}`, idx);
+
+    const key = meetingKey(r);
+    if (key) link(`meeting|${key}`, idx);
+  });
+
+  const sizes = new Map<number, number>();
+  rows.forEach((_, idx) => {
+    const root = find(idx);
+    sizes.set(root, (sizes.get(root) ?? 0) + 1);
+  });
+
+  const groups = new Map<number, string>();
+  rows.forEach((_, idx) => {
+    const root = find(idx);
+    if ((sizes.get(root) ?? 0) > 1) groups.set(idx, `xl-${root}`);
+  });
+  return groups;
+}
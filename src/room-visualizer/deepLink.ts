@@ -0,0 +1,135 @@
+import { toDateKey } from "./academicCalendar";
+import { COLOR_DIMENSIONS } from "./colorScheme";
+import { DEFAULT_MAX_HOUR, DEFAULT_MIN_HOUR } from "./constants";
+import { EMPTY_ROW_FILTERS, LIST_FILTERS, pruneRowFilters, type ListFilterKey } from "./rowFilters";
+import type { Row, RowFilters, SavedViewState } from "./types";
+import { WEEKDAY_COLUMNS, getWeekStart } from "./utils";
+
+//The view settings a link can carry, e.g. "#/?room=B204&status=Scheduled&min=8&max=18"
+export type LinkedView = Omit<SavedViewState, "fileName">;
+
+const VIEW_MODES: LinkedView["viewMode"][] = ["room", "rooms", "instructor"];
+const COLOR_BY: string[] = COLOR_DIMENSIONS.map(d => d.value);
+
+function readHour(value: string | null, min: number, max: number): number | undefined {
+  if (value === null || value.trim() === "") return undefined;
+  const hour = Number(value);
+  return Number.isInteger(hour) && hour >= min && hour <= max ? hour : undefined;
+}
+
+//One repeated parameter per list filter, e.g. "status=Scheduled&status=Tentative"
+const FILTER_PARAMS: Record<ListFilterKey, string> = {
+  terms: "term",
+  statuses: "status",
+  subjects: "subject",
+  instructors: "taught-by",
+};
+
+function readDateKey(value: string | null): string {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : "";
+}
+
+function readFilterParams(params: URLSearchParams): RowFilters | null {
+  const filters: RowFilters = { ...EMPTY_ROW_FILTERS };
+  for (const { key } of LIST_FILTERS) {
+    filters[key] = params.getAll(FILTER_PARAMS[key]).filter(Boolean);
+  }
+  filters.dateFrom = readDateKey(params.get("from"));
+  filters.dateTo = readDateKey(params.get("to"));
+
+  const hasAny = LIST_FILTERS.some(({ key }) => filters[key].length) || filters.dateFrom || filters.dateTo;
+  return hasAny ? filters : null;
+}
+
+//Only values that were in the link and make sense are returned; null when the link has none
+export function readViewParams(params: URLSearchParams): Partial<LinkedView> | null {
+  const view: Partial<LinkedView> = {};
+
+  const room = params.get("room");
+  if (room) view.room = room;
+
+  const filters = readFilterParams(params);
+  if (filters) view.filters = filters;
+
+  const colorBy = params.get("color");
+  if (colorBy && COLOR_BY.includes(colorBy)) view.colorBy = colorBy as LinkedView["colorBy"];
+
+  const minHour = readHour(params.get("min"), 0, 23);
+  const maxHour = readHour(params.get("max"), 1, 24);
+  //Links leave out default hours, so a lone "min" or "max" is checked against the other default
+  if ((minHour ?? DEFAULT_MIN_HOUR) < (maxHour ?? DEFAULT_MAX_HOUR)) {
+    if (minHour !== undefined) view.minHour = minHour;
+    if (maxHour !== undefined) view.maxHour = maxHour;
+  }
+
+  const mode = params.get("view");
+  if (mode && (VIEW_MODES as string[]).includes(mode)) view.viewMode = mode as LinkedView["viewMode"];
+
+  const instructor = params.get("instructor");
+  if (instructor) view.instructor = instructor;
+
+  const rooms = params.getAll("rooms").filter(Boolean);
+  if (rooms.length) view.multiRooms = rooms;
+
+  const day = params.get("day")?.toUpperCase();
+  if (day && (WEEKDAY_COLUMNS as readonly string[]).includes(day)) view.multiRoomDay = day;
+
+  //A week implies calendar week mode; "dates=dated" alone means the first week of the term
+  const week = params.get("week");
+  const [y, m, d] = (week ?? "").split("-").map(Number);
+  if (y && m && d) {
+    view.dateMode = "dated";
+    view.weekStart = getWeekStart(new Date(y, m - 1, d));
+  } else if (params.get("dates") === "dated") {
+    view.dateMode = "dated";
+  }
+
+  return Object.keys(view).length ? view : null;
+}
+
+//Defaults are left out so an untouched view keeps a clean URL
+export function writeViewParams(view: LinkedView): URLSearchParams {
+  const params = new URLSearchParams();
+
+  if (view.viewMode !== "room") params.set("view", view.viewMode);
+  if (view.viewMode === "instructor") {
+    if (view.instructor) params.set("instructor", view.instructor);
+  } else if (view.viewMode === "rooms") {
+    for (const r of view.multiRooms) params.append("rooms", r);
+    params.set("day", view.multiRoomDay);
+  } else if (view.room) {
+    params.set("room", view.room);
+  }
+
+  for (const { key } of LIST_FILTERS) {
+    for (const value of view.filters[key]) params.append(FILTER_PARAMS[key], value);
+  }
+  if (view.filters.dateFrom) params.set("from", view.filters.dateFrom);
+  if (view.filters.dateTo) params.set("to", view.filters.dateTo);
+  if (view.colorBy !== "instructor") params.set("color", view.colorBy);
+  if (view.minHour !== DEFAULT_MIN_HOUR) params.set("min", String(view.minHour));
+  if (view.maxHour !== DEFAULT_MAX_HOUR) params.set("max", String(view.maxHour));
+
+  if (view.dateMode === "dated") {
+    if (view.weekStart) params.set("week", toDateKey(view.weekStart));
+    else params.set("dates", "dated");
+  }
+
+  return params;
+}
+
+//Names that are not in the loaded file are dropped so a stale link falls back to the current view
+export function resolveLinkedView(view: Partial<LinkedView>, rows: Row[]): Partial<LinkedView> {
+  const rooms = new Set(rows.map(r => r.room).filter(Boolean));
+  const instructors = new Set(rows.map(r => r.instructor || "Unknown"));
+  const resolved = { ...view };
+
+  if (resolved.room !== undefined && !rooms.has(resolved.room)) delete resolved.room;
+  if (resolved.instructor !== undefined && !instructors.has(resolved.instructor)) delete resolved.instructor;
+  if (resolved.multiRooms) {
+    resolved.multiRooms = resolved.multiRooms.filter(r => rooms.has(r));
+    if (!resolved.multiRooms.length) delete resolved.multiRooms;
+  }
+  if (resolved.filters) resolved.filters = pruneRowFilters(resolved.filters, rows);
+  return resolved;
+}
@@ -0,0 +1,106 @@
+import { format } from "date-fns";
+import type { Row } from "./types";
+import { normalizeDays, parseTimeOnDate } from "./utils";
+
+export type DiffKind = "added" | "removed" | "changed";
+
+export type FieldChange = {
+  field: "room" | "time" | "instructor" | "days";
+  label: string;
+  before: string;
+  after: string;
+};
+
+export type ScheduleDiffEntry = {
+  offeringId: string;
+  kind: DiffKind;
+  before?: Row;
+  after?: Row;
+  changes: FieldChange[];
+};
+
+export type ScheduleDiff = {
+  entries: ScheduleDiffEntry[];
+  unmatchedRows: number;
+  kindByOfferingId: Map<string, DiffKind>;
+};
+
+function formatTimeValue(value: string | number): string {
+  if (value === "" || value == null) return "";
+  const d = parseTimeOnDate(new Date(2026, 0, 5), value);
+  return isNaN(d.getTime()) ? String(value) : format(d, "h:mm a");
+}
+
+function describeTime(r: Row): string {
+  const start = formatTimeValue(r.startTime);
+  const end = formatTimeValue(r.endTime);
+  return start || end ? `${start}–${end}` : "";
+}
+
+function compareRows(before: Row, after: Row): FieldChange[] {
+  const changes: FieldChange[] = [];
+
+  const pairs: [FieldChange["field"], string, string, string][] = [
+    ["room", "Room", before.room || "", after.room || ""],
+    ["time", "Time", describeTime(before), describeTime(after)],
+    ["instructor", "Instructor", before.instructor || "", after.instructor || ""],
+    ["days", "Days", normalizeDays(before.daysMet).join(""), normalizeDays(after.daysMet).join("")],
+  ];
+
+  for (const [field, label, b, a] of pairs) {
+    if (b.trim() !== a.trim()) changes.push({ field, label, before: b, after: a });
+  }
+
+  return changes;
+}
+
+function groupByOfferingId(rows: Row[]): Map<string, Row[]> {
+  const out = new Map<string, Row[]>();
+  for (const r of rows) {
+    const id = String(r.courseOfferingId ?? "").trim();
+    if (!id) continue;
+    if (!out.has(id)) out.set(id, []);
+    out.get(id)!.push(r);
+  }
+  return out;
+}
+
+//Match rows by Course Offering Id; offerings with several meeting rows are paired in order
+export function diffSchedules(baseline: Row[], current: Row[]): ScheduleDiff {
+  const before = groupByOfferingId(baseline);
+  const after = groupByOfferingId(current);
+  const entries: ScheduleDiffEntry[] = [];
+
+  const ids = Array.from(new Set([...before.keys(), ...after.keys()])).sort();
+
+  for (const offeringId of ids) {
+    const b = before.get(offeringId) ?? [];
+    const a = after.get(offeringId) ?? [];
+
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      if (!b[i]) {
+        entries.push({ offeringId, kind: "added", after: a[i], changes: [] });
+      } else if (!a[i]) {
+        entries.push({ offeringId, kind: "removed", before: b[i], changes: [] });
+      } else {
+        const changes = compareRows(b[i], a[i]);
+        if (changes.length) {
+          entries.push({ offeringId, kind: "changed", before: b[i], after: a[i], changes });
+        }
+      }
+    }
+  }
+
+  //An offering that lost one meeting row but kept another still counts as changed
+  const kindByOfferingId = new Map<string, DiffKind>();
+  for (const e of entries) {
+    const prev = kindByOfferingId.get(e.offeringId);
+    kindByOfferingId.set(e.offeringId, prev && prev !== e.kind ? "changed" : e.kind);
+  }
+
+  const unmatchedRows =
+    baseline.filter(r => !String(r.courseOfferingId ?? "").trim()).length +
+    current.filter(r => !String(r.courseOfferingId ?? "").trim()).length;
+
+  return { entries, unmatchedRows, kindByOfferingId };
+}
@@ -0,0 +1,131 @@
+import * as XLSX from "xlsx";
+import { formatCellValue } from "./rowQuery";
+import { formatMinutes } from "./scheduleEditing";
+import type { ImportLayout, ImportedSheet, Row, RowField } from "./types";
+import { parseExcelDate } from "./utils";
+
+//One cell that differs from the uploaded file
+export type CellChange = {
+  sheet: string;
+  row: number;
+  header: string;
+  courseSection: string;
+  oldValue: string;
+  newValue: string;
+};
+
+//Excel serial dates become real dates and serial times become "9:30 AM" like edited ones
+function cellValue(row: Row, field: RowField): unknown {
+  const value = row[field];
+  if ((field === "startDate" || field === "endDate") && typeof value === "number") {
+    return parseExcelDate(value) ?? value;
+  }
+  if ((field === "startTime" || field === "endTime") && typeof value === "number") {
+    return formatMinutes(Math.round(value * 24 * 60));
+  }
+  return value ?? "";
+}
+
+function fieldsByHeader(layout: ImportLayout): Map<string, RowField> {
+  return new Map(
+    (Object.entries(layout.mapping) as [RowField, string][]).map(([field, header]) => [header, field])
+  );
+}
+
+function rowsForSheet(rows: Row[], sheet: ImportedSheet, sheetCount: number): Row[] {
+  return rows
+    .filter(r => (r.sourceSheet ?? "") === sheet.name || sheetCount === 1)
+    .sort((a, b) => (a.sourceRow ?? 0) - (b.sourceRow ?? 0));
+}
+
+//The uploaded record for each source row number
+function recordsByRow(sheet: ImportedSheet): Map<number, Record<string, unknown>> {
+  return new Map(sheet.records.map((record, idx) => [sheet.rowNumbers[idx], record]));
+}
+
+//Every mapped cell whose value no longer matches the uploaded file. Dates and times are
+//compared as displayed, so a serial time rewritten as the same "9:30 AM" is not a change.
+export function findCellChanges(rows: Row[], layout: ImportLayout): CellChange[] {
+  const fieldByHeader = fieldsByHeader(layout);
+  const changes: CellChange[] = [];
+
+  for (const sheet of layout.sheets) {
+    const originals = recordsByRow(sheet);
+    if (!originals.size) continue;
+
+    for (const row of rowsForSheet(rows, sheet, layout.sheets.length)) {
+      const original = originals.get(row.sourceRow ?? -1);
+      if (!original) continue;
+
+      for (const header of sheet.headers) {
+        const field = fieldByHeader.get(header);
+        if (!field) continue;
+        const oldValue = formatCellValue({ [field]: original[header] } as Row, field);
+        const newValue = formatCellValue(row, field);
+        if (oldValue !== newValue) {
+          changes.push({
+            sheet: sheet.name,
+            row: row.sourceRow ?? 0,
+            header,
+            courseSection: row.courseSection || "",
+            oldValue,
+            newValue,
+          });
+        }
+      }
+    }
+  }
+  return changes;
+}
+
+//The rows back in the sheets and column order they were imported from. Columns the app
+//does not map keep their uploaded values, and the change log lists every edited cell.
+export function buildEditedWorkbook(
+  rows: Row[],
+  layout: ImportLayout,
+  { changeLog = false }: { changeLog?: boolean } = {}
+): XLSX.WorkBook {
+  const fieldByHeader = fieldsByHeader(layout);
+
+  const wb = XLSX.utils.book_new();
+  for (const sheet of layout.sheets) {
+    const originals = recordsByRow(sheet);
+    const data = [
+      sheet.headers,
+      ...rowsForSheet(rows, sheet, layout.sheets.length).map(r => {
+        const original = originals.get(r.sourceRow ?? -1);
+        return sheet.headers.map(h => {
+          const field = fieldByHeader.get(h);
+          return field ? cellValue(r, field) : original?.[h] ?? "";
+        });
+      }),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(data, { cellDates: true }), sheet.name || "Schedule");
+  }
+
+  if (changeLog) {
+    const changes = findCellChanges(rows, layout);
+    const data = [
+      ["Sheet", "Row", "Column", "Course Section", "Old Value", "New Value"],
+      ...changes.map(c => [c.sheet || "Schedule", c.row, c.header, c.courseSection, c.oldValue, c.newValue]),
+    ];
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(data), uniqueSheetName(wb, "Change Log"));
+  }
+  return wb;
+}
+
+//Sheet names must be unique, and the uploaded file may already use this one
+function uniqueSheetName(wb: XLSX.WorkBook, name: string): string {
+  let candidate = name;
+  for (let n = 2; wb.SheetNames.includes(candidate); n++) candidate = `${name} ${n}`;
+  return candidate;
+}
+
+export function downloadEditedWorkbook(
+  rows: Row[],
+  layout: ImportLayout,
+  fileName: string,
+  options: { changeLog?: boolean } = {}
+) {
+  XLSX.writeFile(buildEditedWorkbook(rows, layout, options), fileName, { cellDates: true });
+}
@@ -0,0 +1,162 @@
+import { addDays, format, startOfDay } from "date-fns";
+import { dayCodeForDate, expandMeetingDates, toDateKey } from "./academicCalendar";
+import { findCrossListGroups } from "./crossListing";
+import type { CalendarEntry, Row, ValidationSchedRow } from "./types";
+import { distinct, normalizeDays } from "./utils";
+import { getSchedulableRows } from "./validation";
+
+const ICAL_DAYS: Record<string, string> = {
+  U: "SU",
+  M: "MO",
+  T: "TU",
+  W: "WE",
+  R: "TH",
+  F: "FR",
+  S: "SA",
+};
+
+//Commas, semicolons, backslashes and newlines must be escaped in text values
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function utf8Length(codePoint: number): number {
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+}
+
+//Lines longer than 75 octets of UTF-8 continue on the next line after a space, which
+//counts toward that line's 75. Folds fall between code points, never inside one.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char.codePointAt(0)!);
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+//Times are "floating": they mean the same clock time in whatever zone the calendar uses
+function formatLocal(date: Date, hours: number, minutes: number): string {
+  const d = new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes);
+  return format(d, "yyyyMMdd'T'HHmmss");
+}
+
+function formatDateKey(key: string, hours: number, minutes: number): string {
+  const [y, m, d] = key.split("-").map(Number);
+  return formatLocal(new Date(y, m - 1, d), hours, minutes);
+}
+
+//One weekly event for a meeting; cross-listed sections share it
+function buildEvent(members: ValidationSchedRow[], calendar: CalendarEntry[], stamp: string): string[] {
+  const first = members[0];
+  const days = new Set(normalizeDays(first.daysMet));
+  const start = startOfDay(first.startDateObj);
+  const end = startOfDay(first.endDateObj);
+  const [startH, startM] = [first.startTimeObj.getHours(), first.startTimeObj.getMinutes()];
+  const [endH, endM] = [first.endTimeObj.getHours(), first.endTimeObj.getMinutes()];
+
+  //The weekly pattern on its own, and the dates the academic calendar really leaves
+  const patternDates: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) {
+    if (days.has(dayCodeForDate(d))) patternDates.push(toDateKey(d));
+  }
+  const actualDates = calendar.length ? expandMeetingDates(first.row, calendar) : new Set(patternDates);
+  if (!patternDates.length || !actualDates.size) return [];
+
+  const pattern = new Set(patternDates);
+  const excluded = patternDates.filter(d => !actualDates.has(d));
+  const added = [...actualDates].filter(d => !pattern.has(d)).sort();
+
+  const courses = distinct(members.map(m => m.courseSection).filter(Boolean));
+  const offeringIds = distinct(members.map(m => String(m.row.courseOfferingId ?? "").trim()).filter(Boolean));
+  const instructors = distinct(members.map(m => m.instructor));
+  const description = [
+    `Section: ${courses.join(" / ")}`,
+    `Course Offering ID: ${offeringIds.join(", ") || "—"}`,
+    `Instructor: ${instructors.join(", ")}`,
+    `Room: ${first.room || "—"}`,
+    `Term: ${first.term}`,
+  ].join("\n");
+
+  //Unique per meeting, so part-of-term runs of one offering stay separate events
+  const uid = [
+    offeringIds.join("-") || `row-${first.rowIndex}`,
+    first.room,
+    [...days].join(""),
+    format(first.startTimeObj, "HHmm"),
+    format(first.endTimeObj, "HHmm"),
+    toDateKey(first.startDateObj),
+    toDateKey(first.endDateObj),
+  ].join("-").replace(/[^\w-]/g, "");
+
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${uid}@room-schedule-visualizer`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${formatDateKey(patternDates[0], startH, startM)}`,
+    `DTEND:${formatDateKey(patternDates[0], endH, endM)}`,
+    `RRULE:FREQ=WEEKLY;BYDAY=${[...days].map(d => ICAL_DAYS[d]).join(",")};UNTIL=${formatLocal(end, 23, 59)}`,
+    ...excluded.map(d => `EXDATE:${formatDateKey(d, startH, startM)}`),
+    ...added.map(d => `RDATE:${formatDateKey(d, startH, startM)}`),
+    `SUMMARY:${escapeText(courses.join(" / ") || "Class")}`,
+    `LOCATION:${escapeText(first.room)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    "END:VEVENT",
+  ];
+  return lines;
+}
+
+//A calendar with one recurring event per meeting in the given rows
+export function buildIcsCalendar(
+  rows: Row[],
+  calendar: CalendarEntry[],
+  name: string
+): { ics: string; eventCount: number } {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const crossListGroups = findCrossListGroups(rows);
+
+  //Cross-listed rows become one event when they also share the meeting itself
+  const meetings = new Map<string, ValidationSchedRow[]>();
+  for (const r of getSchedulableRows(rows)) {
+    const key = [
+      crossListGroups.get(r.rowIndex) ?? `row-${r.rowIndex}`,
+      r.room,
+      normalizeDays(r.daysMet).join(""),
+      r.startTimeObj.getHours(), r.startTimeObj.getMinutes(),
+      r.endTimeObj.getHours(), r.endTimeObj.getMinutes(),
+      toDateKey(r.startDateObj),
+      toDateKey(r.endDateObj),
+    ].join("|");
+    if (!meetings.has(key)) meetings.set(key, []);
+    meetings.get(key)!.push(r);
+  }
+
+  const events = [...meetings.values()]
+    .map(members => buildEvent(members, calendar, stamp))
+    .filter(lines => lines.length > 0);
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Room Schedule Visualizer//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flat(),
+    "END:VCALENDAR",
+  ];
+
+  return { ics: lines.map(foldLine).join("\r\n") + "\r\n", eventCount: events.length };
+}
@@ -0,0 +1,219 @@
+import * as XLSX from "xlsx";
+import type { ColumnMapping, Row, RowField } from "./types";
+
+export type ImportedTable = {
+  name: string;
+  headers: string[];
+  records: Record<string, unknown>[];
+  rowNumbers: number[];
+  parseErrors: string[];
+};
+
+const DELIMITER_CANDIDATES = [",", "\t", ";", "|"];
+
+export function isDelimitedTextFile(fileName: string): boolean {
+  return /\.(csv|tsv|txt)$/i.test(fileName);
+}
+
+//Decode raw bytes, honouring BOMs and falling back to Windows-1252 for invalid UTF-8
+export function decodeText(bytes: Uint8Array): { text: string; encoding: string } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder("utf-8").decode(bytes.subarray(3)), encoding: "UTF-8 (BOM)" };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder("utf-16le").decode(bytes.subarray(2)), encoding: "UTF-16LE" };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder("utf-16be").decode(bytes.subarray(2)), encoding: "UTF-16BE" };
+  }
+
+  try {
+    return { text: new TextDecoder("utf-8", { fatal: true }).decode(bytes), encoding: "UTF-8" };
+  } catch {
+    return { text: new TextDecoder("windows-1252").decode(bytes), encoding: "Windows-1252" };
+  }
+}
+
+function countOutsideQuotes(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+//Pick the delimiter that splits the sample lines most consistently
+export function detectDelimiter(text: string, fileName = ""): string {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim() !== "")
+    .slice(0, 20);
+
+  if (!lines.length) return /\.tsv$/i.test(fileName) ? "\t" : ",";
+
+  let best = /\.tsv$/i.test(fileName) ? "\t" : ",";
+  let bestScore = -1;
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const headerCount = countOutsideQuotes(lines[0], delimiter);
+    if (headerCount === 0) continue;
+
+    const consistent = lines.filter(line => countOutsideQuotes(line, delimiter) === headerCount).length;
+    const score = consistent * 1000 + headerCount;
+
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+//RFC 4180 style parser; returns each record with the line number it started on
+export function parseDelimited(
+  text: string,
+  delimiter: string
+): { cells: string[][]; lineNumbers: number[]; errors: string[] } {
+  const cells: string[][] = [];
+  const lineNumbers: number[] = [];
+  const errors: string[] = [];
+
+  let field = "";
+  let record: string[] = [];
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    field = "";
+    if (record.length > 1 || record[0].trim() !== "") {
+      cells.push(record);
+      lineNumbers.push(recordLine);
+    }
+    record = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (ch === "\n") line++;
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field.trim() === "") {
+      field = "";
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push(`Row ${recordLine}: unterminated quoted field; the rest of the file was read as one value`);
+  }
+  if (field !== "" || record.length > 0) endRecord();
+
+  return { cells, lineNumbers, errors };
+}
+
+function readDelimitedTable(bytes: Uint8Array, fileName: string): ImportedTable {
+  const { text } = decodeText(bytes);
+  const delimiter = detectDelimiter(text, fileName);
+  const { cells, lineNumbers, errors } = parseDelimited(text, delimiter);
+
+  const headers = (cells[0] ?? []).map(h => h.trim());
+  const parseErrors = [...errors];
+  const records: Record<string, unknown>[] = [];
+  const rowNumbers: number[] = [];
+
+  for (let i = 1; i < cells.length; i++) {
+    const values = cells[i];
+
+    if (values.length !== headers.length) {
+      parseErrors.push(
+        `Row ${lineNumbers[i]}: expected ${headers.length} columns but found ${values.length}`
+      );
+    }
+
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, idx) => {
+      if (header) record[header] = (values[idx] ?? "").trim();
+    });
+    records.push(record);
+    rowNumbers.push(lineNumbers[i]);
+  }
+
+  return {
+    name: "",
+    headers: headers.filter(Boolean),
+    records,
+    rowNumbers,
+    parseErrors,
+  };
+}
+
+//One table per worksheet, in workbook order
+function readWorkbookTables(bytes: Uint8Array): ImportedTable[] {
+  const wb = XLSX.read(bytes, { type: "array" });
+
+  return wb.SheetNames.map(name => {
+    const ws = wb.Sheets[name];
+    const records: Record<string, unknown>[] = XLSX.utils.sheet_to_json(ws, { defval: "" });
+
+    return {
+      name,
+      headers: records.length ? Object.keys(records[0]) : [],
+      records,
+      // sheet_to_json tags each record with its zero-based sheet row as __rowNum__
+      rowNumbers: records.map((record, idx) => {
+        const rowNum = (record as { __rowNum__?: number }).__rowNum__;
+        return typeof rowNum === "number" ? rowNum + 1 : idx + 2;
+      }),
+      parseErrors: [],
+    };
+  });
+}
+
+export async function readTabularFile(file: File): Promise<ImportedTable[]> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return isDelimitedTextFile(file.name)
+    ? [readDelimitedTable(bytes, file.name)]
+    : readWorkbookTables(bytes);
+}
+
+export function mapRecordsToRows(table: ImportedTable, mapping: ColumnMapping): Row[] {
+  const entries = Object.entries(mapping) as [RowField, string][];
+
+  return table.records.map((record, idx) => {
+    const out: Record<string, unknown> = {};
+    for (const [field, header] of entries) {
+      if (header in record) out[field] = record[header];
+    }
+    if (table.name) out.sourceSheet = table.name;
+    out.sourceRow = table.rowNumbers[idx];
+    return out as Row;
+  });
+}
@@ -0,0 +1,74 @@
+import { ROOM_INVENTORY_STORAGE_KEY } from "./constants";
+import type { RoomInfo, Row } from "./types";
+import { getBuilding, pickColumn } from "./utils";
+
+//"Projector, Lab benches; doc cam" -> ["projector", "lab benches", "doc cam"]
+export function parseFeatureList(value: unknown): string[] {
+  return Array.from(
+    new Set(
+      String(value ?? "")
+        .split(/[,;|/]/)
+        .map(f => f.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+//Reads rows with Room, Building, Capacity and Features columns
+export function parseRoomInventory(records: Record<string, unknown>[]): {
+  rooms: RoomInfo[];
+  errors: string[];
+} {
+  const rooms = new Map<string, RoomInfo>();
+  const errors: string[] = [];
+
+  records.forEach((record, idx) => {
+    const room = String(pickColumn(record, ["room", "room name", "location", "space"]) || "").trim();
+    const building = String(pickColumn(record, ["building", "bldg", "building name"]) || "").trim();
+    const capacityValue = pickColumn(record, ["capacity", "seat capacity", "seats", "max capacity"]);
+    const features = parseFeatureList(pickColumn(record, ["features", "equipment", "amenities", "room features"]));
+
+    if (!room) {
+      errors.push(`Inventory row ${idx + 2}: missing room name`);
+      return;
+    }
+
+    const capacity = capacityValue === "" ? null : Number(capacityValue);
+    if (capacity !== null && (!Number.isFinite(capacity) || capacity < 0)) {
+      errors.push(`Inventory row ${idx + 2}: capacity "${String(capacityValue)}" for ${room} is not a number`);
+    }
+
+    rooms.set(room, {
+      room,
+      building: building || getBuilding(room),
+      capacity: capacity !== null && Number.isFinite(capacity) && capacity >= 0 ? capacity : null,
+      features,
+    });
+  });
+
+  return { rooms: Array.from(rooms.values()), errors };
+}
+
+export function getMaxEnrollment(row: Row): number | null {
+  const seats = Number(row.maxEnrollment);
+  return row.maxEnrollment !== undefined && row.maxEnrollment !== "" && Number.isFinite(seats) ? seats : null;
+}
+
+//Features the row asks for that the room does not list
+export function getMissingFeatures(required: string[], room: RoomInfo): string[] {
+  return required.filter(f => !room.features.includes(f));
+}
+
+export function loadRoomInventory(): RoomInfo[] {
+  try {
+    const raw = localStorage.getItem(ROOM_INVENTORY_STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRoomInventory(rooms: RoomInfo[]) {
+  localStorage.setItem(ROOM_INVENTORY_STORAGE_KEY, JSON.stringify(rooms));
+}
@@ -0,0 +1,117 @@
+import { format } from "date-fns";
+import { toDateKey } from "./academicCalendar";
+import type { Row, RowFilters } from "./types";
+import { distinct, parseExcelDate } from "./utils";
+
+//The filters that pick from values found in the file
+export type ListFilterKey = "terms" | "statuses" | "subjects" | "instructors";
+
+export const LIST_FILTERS: { key: ListFilterKey; label: string }[] = [
+  { key: "terms", label: "Term" },
+  { key: "statuses", label: "Status" },
+  { key: "subjects", label: "Subject" },
+  { key: "instructors", label: "Instructor" },
+];
+
+export const EMPTY_ROW_FILTERS: RowFilters = {
+  terms: [],
+  statuses: [],
+  subjects: [],
+  instructors: [],
+  dateFrom: "",
+  dateTo: "",
+};
+
+//Shown for rows with a blank term, status or subject so they can still be picked
+export const BLANK_FILTER_VALUE = "(blank)";
+
+//"MMET" for "MMET 181/501 LEC"
+export function getSubject(courseSection: string): string {
+  return courseSection.trim().match(/^[A-Za-z]+/)?.[0].toUpperCase() ?? "";
+}
+
+function filterValue(row: Row, key: ListFilterKey): string {
+  switch (key) {
+    case "terms":
+      return String(row.term ?? "").trim() || BLANK_FILTER_VALUE;
+    case "statuses":
+      return String(row.status ?? "").trim() || BLANK_FILTER_VALUE;
+    case "subjects":
+      return getSubject(String(row.courseSection ?? "")) || BLANK_FILTER_VALUE;
+    case "instructors":
+      return row.instructor || "Unknown";
+  }
+}
+
+//Distinct values of each list filter, as they appear in the file
+export function getFilterOptions(rows: Row[]): Record<ListFilterKey, string[]> {
+  const options = {} as Record<ListFilterKey, string[]>;
+  for (const { key } of LIST_FILTERS) {
+    options[key] = distinct(rows.map(r => filterValue(r, key))).sort((a, b) =>
+      a.localeCompare(b, undefined, { numeric: true })
+    );
+  }
+  return options;
+}
+
+//A row passes when each list allows its value and its dates overlap the range.
+//Rows without dates are left out once a date limit is set.
+export function rowMatchesFilters(row: Row, filters: RowFilters): boolean {
+  for (const { key } of LIST_FILTERS) {
+    if (filters[key].length && !filters[key].includes(filterValue(row, key))) return false;
+  }
+
+  if (filters.dateFrom || filters.dateTo) {
+    const start = parseExcelDate(row.startDate) ?? parseExcelDate(row.endDate);
+    const end = parseExcelDate(row.endDate) ?? start;
+    if (!start || !end) return false;
+    if (filters.dateTo && toDateKey(start) > filters.dateTo) return false;
+    if (filters.dateFrom && toDateKey(end) < filters.dateFrom) return false;
+  }
+  return true;
+}
+
+export function countActiveFilters(filters: RowFilters): number {
+  return (
+    LIST_FILTERS.filter(({ key }) => filters[key].length).length +
+    (filters.dateFrom || filters.dateTo ? 1 : 0)
+  );
+}
+
+function formatDateKey(key: string): string {
+  const [y, m, d] = key.split("-").map(Number);
+  return y && m && d ? format(new Date(y, m - 1, d), "M/d/yyyy") : key;
+}
+
+//"All", or e.g. "Scheduled, Tentative · MMET · from 1/12/2026" for export titles
+export function describeFilters(filters: RowFilters): string {
+  const parts = LIST_FILTERS.filter(({ key }) => filters[key].length).map(({ key }) => filters[key].join(", "));
+  if (filters.dateFrom && filters.dateTo) {
+    parts.push(`${formatDateKey(filters.dateFrom)}–${formatDateKey(filters.dateTo)}`);
+  } else if (filters.dateFrom) {
+    parts.push(`from ${formatDateKey(filters.dateFrom)}`);
+  } else if (filters.dateTo) {
+    parts.push(`until ${formatDateKey(filters.dateTo)}`);
+  }
+  return parts.length ? parts.join(" · ") : "All";
+}
+
+//A short label for file names, e.g. "Scheduled-MMET"; long selections are cut off
+export function filterFileLabel(filters: RowFilters): string {
+  const values = [
+    ...LIST_FILTERS.flatMap(({ key }) => filters[key]),
+    filters.dateFrom,
+    filters.dateTo,
+  ].filter(Boolean);
+  return values.length ? values.join("-").slice(0, 60) : "All";
+}
+
+//Values that are not in the loaded file are dropped, so a stale filter cannot hide everything
+export function pruneRowFilters(filters: RowFilters, rows: Row[]): RowFilters {
+  const options = getFilterOptions(rows);
+  const pruned = { ...filters };
+  for (const { key } of LIST_FILTERS) {
+    pruned[key] = filters[key].filter(v => options[key].includes(v));
+  }
+  return pruned;
+}
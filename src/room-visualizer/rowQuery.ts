@@ -0,0 +1,125 @@
+import { format } from "date-fns";
+import { ROW_FIELDS } from "./constants";
+import { formatDays, formatMinutes } from "./scheduleEditing";
+import type { Row, RowField } from "./types";
+import { normalizeDays, parseExcelDate, parseTimeOnDate, timeToMinutes } from "./utils";
+
+export type RowSort = { field: RowField; direction: "asc" | "desc" } | null;
+
+export type RowQuery = {
+  search: string;
+  filters: Partial<Record<RowField, string>>;
+  sort: RowSort;
+};
+
+const DATE_FIELDS: RowField[] = ["startDate", "endDate"];
+const TIME_FIELDS: RowField[] = ["startTime", "endTime"];
+
+//Column widths in pixels; long text fields get more room
+export const ROW_TABLE_COLUMNS: { field: RowField; label: string; width: number }[] = ROW_FIELDS.map(f => ({
+  ...f,
+  width:
+    f.field === "courseSection" || f.field === "instructor" || f.field === "requiredFeatures"
+      ? 180
+      : f.field === "room" || f.field === "term" || f.field === "crossListId"
+      ? 130
+      : 110,
+}));
+
+//Dates and times show the same way whether the file stored text or Excel serials
+export function formatCellValue(row: Row, field: RowField): string {
+  const value = row[field];
+  if (value === undefined || value === null || value === "") return "";
+  if (DATE_FIELDS.includes(field) && typeof value === "number") {
+    const d = parseExcelDate(value);
+    return d ? format(d, "M/d/yyyy") : String(value);
+  }
+  if (TIME_FIELDS.includes(field) && typeof value === "number") {
+    return formatMinutes(Math.round(value * 24 * 60));
+  }
+  return String(value);
+}
+
+//Dates sort by date, times by time of day and enrollment numerically; the rest as text
+function sortKey(row: Row, field: RowField): number | string | null {
+  const value = row[field];
+  if (value === undefined || value === null || value === "") return null;
+  if (DATE_FIELDS.includes(field)) return parseExcelDate(value)?.getTime() ?? String(value);
+  if (TIME_FIELDS.includes(field)) return parseTimeInput(String(formatCellValue(row, field))) ?? String(value);
+  if (field === "maxEnrollment" && Number.isFinite(Number(value))) return Number(value);
+  return String(value).toLowerCase();
+}
+
+//Indices of the rows that match the search and every column filter, in sorted order.
+//Blank cells sort last either way.
+export function queryRows(rows: Row[], { search, filters, sort }: RowQuery): number[] {
+  const needle = search.trim().toLowerCase();
+  const activeFilters = (Object.entries(filters) as [RowField, string][])
+    .map(([field, text]) => [field, text.trim().toLowerCase()] as const)
+    .filter(([, text]) => text);
+
+  const indices: number[] = [];
+  rows.forEach((row, idx) => {
+    const matchesFilters = activeFilters.every(([field, text]) =>
+      formatCellValue(row, field).toLowerCase().includes(text)
+    );
+    const matchesSearch =
+      !needle || ROW_FIELDS.some(({ field }) => formatCellValue(row, field).toLowerCase().includes(needle));
+    if (matchesFilters && matchesSearch) indices.push(idx);
+  });
+
+  if (!sort) return indices;
+
+  const keys = new Map(indices.map(idx => [idx, sortKey(rows[idx], sort.field)]));
+  const direction = sort.direction === "asc" ? 1 : -1;
+  return indices.sort((a, b) => {
+    const ka = keys.get(a)!;
+    const kb = keys.get(b)!;
+    if (ka === null || kb === null) return ka === kb ? a - b : ka === null ? 1 : -1;
+    if (typeof ka === "number" && typeof kb === "number") return (ka - kb) * direction || a - b;
+    return String(ka).localeCompare(String(kb), undefined, { numeric: true }) * direction || a - b;
+  });
+}
+
+//Minutes after midnight, or null when the text is not a time. parseTimeOnDate falls back
+//to midnight for text it cannot read, so the shape is checked first.
+function parseTimeInput(text: string): number | null {
+  const m = text.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?\s*([ap])?\.?m?\.?$/i);
+  if (!m) return null;
+  const hours = Number(m[1]);
+  const minutes = Number(m[2] ?? 0);
+  if (minutes > 59 || hours > (m[3] ? 12 : 23) || (m[3] && hours === 0)) return null;
+  const normalized = `${hours}:${String(minutes).padStart(2, "0")}${m[3] ? ` ${m[3].toUpperCase()}M` : ""}`;
+  return timeToMinutes(parseTimeOnDate(new Date(2000, 0, 1), normalized));
+}
+
+//Checks a typed cell value with the same parsers the schedule uses, and returns it in
+//the form the rest of the app writes. Blank is allowed; the validation tab reports it.
+export function parseCellInput(field: RowField, text: string): { value: string | number } | { error: string } {
+  const trimmed = text.trim();
+  if (!trimmed) return { value: "" };
+
+  if (DATE_FIELDS.includes(field)) {
+    const d = parseExcelDate(trimmed);
+    return d ? { value: format(d, "M/d/yyyy") } : { error: `"${trimmed}" is not a date, e.g. 1/12/2026` };
+  }
+
+  if (TIME_FIELDS.includes(field)) {
+    const minutes = parseTimeInput(trimmed);
+    return minutes === null ? { error: `"${trimmed}" is not a time, e.g. 9:30 AM` } : { value: formatMinutes(minutes) };
+  }
+
+  if (field === "daysMet") {
+    const days = normalizeDays(trimmed);
+    return days.length ? { value: formatDays(days) } : { error: `"${trimmed}" has no day codes, e.g. MWF or TR` };
+  }
+
+  if (field === "maxEnrollment") {
+    const seats = Number(trimmed);
+    return Number.isInteger(seats) && seats >= 0
+      ? { value: seats }
+      : { error: `"${trimmed}" is not a whole number of seats` };
+  }
+
+  return { value: trimmed };
+}
@@ -0,0 +1,110 @@
+import { RECENT_FILES_LIMIT, SAVED_DATA_DB_NAME } from "./constants";
+import type { RecentFile, SavedFile, SavedViewState } from "./types";
+
+//"files" holds whole datasets; "recent" holds their list entries so the list loads without the rows
+const FILES_STORE = "files";
+const RECENT_STORE = "recent";
+const VIEW_STORE = "view";
+const VIEW_KEY = "current";
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(SAVED_DATA_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(FILES_STORE, { keyPath: "fileName" });
+      db.createObjectStore(RECENT_STORE, { keyPath: "fileName" });
+      db.createObjectStore(VIEW_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+//Runs one transaction and resolves with the result of the request `run` returns, once it commits
+async function transact<T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDb();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(stores, mode);
+      const request = run(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+//Newest first
+export async function listRecentFiles(): Promise<RecentFile[]> {
+  const recent = await transact<RecentFile[]>([RECENT_STORE], "readonly", tx =>
+    tx.objectStore(RECENT_STORE).getAll()
+  );
+  return (recent ?? []).sort((a, b) => b.savedAt - a.savedAt);
+}
+
+export async function loadSavedFile(fileName: string): Promise<SavedFile | null> {
+  const file = await transact<SavedFile>([FILES_STORE], "readonly", tx =>
+    tx.objectStore(FILES_STORE).get(fileName)
+  );
+  return file ?? null;
+}
+
+//Uploading a file with the same name replaces the earlier copy. Resolves to the updated list.
+export async function saveFile(file: SavedFile): Promise<RecentFile[]> {
+  const previous = await listRecentFiles();
+  const dropped = previous
+    .filter(f => f.fileName !== file.fileName)
+    .slice(RECENT_FILES_LIMIT - 1)
+    .map(f => f.fileName);
+
+  await transact([FILES_STORE, RECENT_STORE], "readwrite", tx => {
+    tx.objectStore(FILES_STORE).put(file);
+    tx.objectStore(RECENT_STORE).put({
+      fileName: file.fileName,
+      savedAt: file.savedAt,
+      rowCount: file.rows.length,
+    } satisfies RecentFile);
+    for (const name of dropped) {
+      tx.objectStore(FILES_STORE).delete(name);
+      tx.objectStore(RECENT_STORE).delete(name);
+    }
+  });
+  return listRecentFiles();
+}
+
+export async function deleteSavedFile(fileName: string): Promise<RecentFile[]> {
+  await transact([FILES_STORE, RECENT_STORE], "readwrite", tx => {
+    tx.objectStore(FILES_STORE).delete(fileName);
+    tx.objectStore(RECENT_STORE).delete(fileName);
+  });
+  return listRecentFiles();
+}
+
+export async function loadViewState(): Promise<SavedViewState | null> {
+  const view = await transact<SavedViewState>([VIEW_STORE], "readonly", tx =>
+    tx.objectStore(VIEW_STORE).get(VIEW_KEY)
+  );
+  return view ?? null;
+}
+
+export async function saveViewState(view: SavedViewState): Promise<void> {
+  await transact([VIEW_STORE], "readwrite", tx => {
+    tx.objectStore(VIEW_STORE).put(view, VIEW_KEY);
+  });
+}
+
+//Removes every saved schedule and the saved view
+export function clearSavedData(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(SAVED_DATA_DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
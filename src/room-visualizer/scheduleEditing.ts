@@ -0,0 +1,70 @@
+import { format } from "date-fns";
+import type { Row, SessionInstance } from "./types";
+import { WEEKDAY_COLUMNS, WEEKDAY_LABELS, normalizeDays, timeToMinutes } from "./utils";
+
+//A block dropped somewhere new. Times are minutes after midnight.
+export type BlockEdit = {
+  rowIndices: number[];
+  fromDay: string;
+  toDay: string;
+  room?: string; // set when the block was dropped on another room's column
+  startMinutes: number;
+  endMinutes: number;
+};
+
+export function snapMinutes(minutes: number, step: number): number {
+  return Math.round(minutes / step) * step;
+}
+
+//9:30 AM, the same style the sample file uses
+export function formatMinutes(minutes: number): string {
+  return format(new Date(2000, 0, 1, 0, minutes), "h:mm a");
+}
+
+//Day codes back in week order, e.g. ["F", "M", "W"] -> "MWF"
+export function formatDays(days: string[]): string {
+  return WEEKDAY_COLUMNS.filter(d => days.includes(d)).join("");
+}
+
+//Closed and makeup-day blocks do not stand for the row's own pattern, so they stay put
+export function isEditableSession(session: SessionInstance): boolean {
+  return !session.closedReason && !session.makeupFor && session.rowIndices.length > 0;
+}
+
+export function sessionMinutes(session: SessionInstance): { startMinutes: number; endMinutes: number } {
+  return { startMinutes: timeToMinutes(session.start), endMinutes: timeToMinutes(session.end) };
+}
+
+//A row has one time and one room, so those change on every day it meets; moving to
+//another day only swaps that day in its pattern. Returns an error instead when a row
+//already meets on the target day.
+export function applyBlockEdit(rows: Row[], edit: BlockEdit): { rows: Row[]; error: string | null } {
+  const next = [...rows];
+
+  for (const idx of edit.rowIndices) {
+    const row = rows[idx];
+    if (!row) continue;
+
+    let daysMet = row.daysMet;
+    if (edit.toDay !== edit.fromDay) {
+      const days = normalizeDays(row.daysMet);
+      if (days.includes(edit.toDay)) {
+        return {
+          rows,
+          error: `${row.courseSection || "This class"} already meets on ${WEEKDAY_LABELS[edit.toDay]}.`,
+        };
+      }
+      daysMet = formatDays(days.map(d => (d === edit.fromDay ? edit.toDay : d)));
+    }
+
+    next[idx] = {
+      ...row,
+      daysMet,
+      startTime: formatMinutes(edit.startMinutes),
+      endTime: formatMinutes(edit.endMinutes),
+      room: edit.room ?? row.room,
+    };
+  }
+
+  return { rows: next, error: null };
+}
@@ -0,0 +1,341 @@
+import { createElement } from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ScheduleSvg from "./ScheduleSvg";
+import { getAutoHourRange, layoutSchedule } from "./scheduleLayout";
+import { colorKey, getLegendItems } from "./colorScheme";
+import type { ColorDimension, ColorOverrides, SessionInstance } from "./types";
+import { WEEKDAY_COLUMNS, assignColors } from "./utils";
+
+const NS = "http://www.w3.org/2000/svg";
+
+type ExportDecorations = {
+  title: string; // blank for no title line
+  filterLabel: string; // "All" or the active filters
+  legendItems: string[];
+  legendColors: Map<string, string>;
+  theme: "light" | "dark";
+};
+
+//A standalone SVG: the grid with a background, title and legend below it
+export type ComposedSvg = {
+  svg: SVGSVGElement;
+  width: number;
+  height: number;
+  background: string;
+};
+
+//A schedule with the header text printed above it on a PDF page
+export type SchedulePage = {
+  title: string;
+  details: string[];
+  schedule: ComposedSvg;
+};
+
+export function composeExportSvg(svg: SVGSVGElement, {
+  title,
+  filterLabel,
+  legendItems,
+  legendColors,
+  theme,
+}: ExportDecorations): ComposedSvg {
+  const clonedSvg = svg.cloneNode(true) as SVGSVGElement;
+  clonedSvg.setAttribute("xmlns", NS);
+  clonedSvg.removeAttribute("id");
+
+  const svgWidth =
+    Number(svg.getAttribute("width")) || svg.clientWidth || 1200;
+  const svgHeight =
+    Number(svg.getAttribute("height")) || svg.clientHeight || 800;
+
+  const exportBg = theme === "dark" ? "#09090b" : "#ffffff";
+  const exportText = theme === "dark" ? "#f4f4f5" : "#111111";
+  const exportBorder = theme === "dark" ? "#27272a" : "#e4e4e7";
+
+  const exportLegendItems = legendItems.filter(Boolean);
+  const legendPadding = 16;
+  const legendTitleH = 0;
+  const legendItemH = 22;
+  const legendItemMinW = 220;
+  const legendCols = Math.max(
+    1,
+    Math.floor((svgWidth - legendPadding * 2) / legendItemMinW)
+  );
+  const legendRows = Math.max(1, Math.ceil(exportLegendItems.length / legendCols));
+  const roomTitleH = title ? 26 : 0;
+  const legendHeight =
+    legendPadding +
+    roomTitleH +
+    legendTitleH +
+    legendRows * legendItemH +
+    legendPadding;
+
+  const totalHeight = svgHeight + legendHeight;
+
+  clonedSvg.setAttribute("width", String(svgWidth));
+  clonedSvg.setAttribute("height", String(totalHeight));
+  clonedSvg.setAttribute("viewBox", `0 0 ${svgWidth} ${totalHeight}`);
+
+  const bgRect = document.createElementNS(NS, "rect");
+  bgRect.setAttribute("x", "0");
+  bgRect.setAttribute("y", "0");
+  bgRect.setAttribute("width", String(svgWidth));
+  bgRect.setAttribute("height", String(totalHeight));
+  bgRect.setAttribute("fill", exportBg);
+  clonedSvg.insertBefore(bgRect, clonedSvg.firstChild);
+
+  const legendGroup = document.createElementNS(NS, "g");
+  legendGroup.setAttribute("transform", `translate(0, ${svgHeight})`);
+
+  const divider = document.createElementNS(NS, "line");
+  divider.setAttribute("x1", "0");
+  divider.setAttribute("y1", "0");
+  divider.setAttribute("x2", String(svgWidth));
+  divider.setAttribute("y2", "0");
+  divider.setAttribute("stroke", exportBorder);
+  legendGroup.appendChild(divider);
+
+  let currentY = legendPadding + 6;
+
+  if (title) {
+    const roomText = document.createElementNS(NS, "text");
+    roomText.setAttribute("x", String(legendPadding));
+    roomText.setAttribute("y", String(currentY + 14));
+    roomText.setAttribute("font-size", "16");
+    roomText.setAttribute("font-weight", "600");
+    roomText.setAttribute("fill", exportText);
+
+    // Main text (Room)
+    const tspanMain = document.createElementNS(NS, "tspan");
+    tspanMain.textContent = title;
+
+    // Muted filters
+    const tspanStatus = document.createElementNS(NS, "tspan");
+    tspanStatus.textContent = ` — ${filterLabel || "All"}`;
+    tspanStatus.setAttribute(
+      "fill",
+      theme === "dark" ? "#a1a1aa" : "#6b7280"
+    );
+
+    roomText.appendChild(tspanMain);
+    roomText.appendChild(tspanStatus);
+
+    legendGroup.appendChild(roomText);
+    currentY += roomTitleH;
+  }
+
+  const usableWidth = svgWidth - legendPadding * 2;
+  const itemWidth = usableWidth / legendCols;
+
+  exportLegendItems.forEach((name, idx) => {
+    const col = idx % legendCols;
+    const row = Math.floor(idx / legendCols);
+
+    const itemX = legendPadding + col * itemWidth;
+    const itemY = currentY + row * legendItemH;
+
+    const swatch = document.createElementNS(NS, "rect");
+    swatch.setAttribute("x", String(itemX));
+    swatch.setAttribute("y", String(itemY));
+    swatch.setAttribute("width", "12");
+    swatch.setAttribute("height", "12");
+    swatch.setAttribute("rx", "3");
+    swatch.setAttribute("ry", "3");
+    swatch.setAttribute("fill", legendColors.get(name) || "#94a3b8");
+    legendGroup.appendChild(swatch);
+
+    const label = document.createElementNS(NS, "text");
+    label.setAttribute("x", String(itemX + 18));
+    label.setAttribute("y", String(itemY + 10));
+    label.setAttribute("font-size", "12");
+    label.setAttribute("fill", exportText);
+    label.textContent = name;
+    legendGroup.appendChild(label);
+  });
+
+  clonedSvg.appendChild(legendGroup);
+
+  return { svg: clonedSvg, width: svgWidth, height: totalHeight, background: exportBg };
+}
+
+type RoomScheduleInput = {
+  room: string;
+  sessions: SessionInstance[];
+  columnLabels: Record<string, string>;
+  columnNotes: Record<string, string>;
+  minHour: number;
+  maxHour: number;
+  width: number;
+  theme: "light" | "dark";
+  filterLabel: string;
+  colorBy: ColorDimension;
+  colorOverrides: ColorOverrides;
+  withTitle: boolean;
+};
+
+//Draws one room's week off screen, colored the same way as the room view
+export function renderRoomSchedule({
+  room,
+  sessions,
+  columnLabels,
+  columnNotes,
+  minHour,
+  maxHour,
+  width,
+  theme,
+  filterLabel,
+  colorBy,
+  colorOverrides,
+  withTitle,
+}: RoomScheduleInput): ComposedSvg {
+  const [autoMinHour, autoMaxHour] = getAutoHourRange(sessions);
+  const layout = layoutSchedule({
+    sessions,
+    ghostSessions: [],
+    dateColumns: [...WEEKDAY_COLUMNS],
+    columnKeyFor: s => s.dayCode,
+    containerWidth: width,
+    effectiveMin: Math.min(minHour, autoMinHour),
+    effectiveMax: Math.max(maxHour, autoMaxHour),
+  });
+
+  const legendItems = getLegendItems(sessions, colorBy);
+  const colors = assignColors(legendItems, colorOverrides[colorBy]);
+
+  const markup = renderToStaticMarkup(
+    createElement(ScheduleSvg, {
+      ...layout,
+      columnLabels,
+      columnNotes,
+      getBlockColor: s => colors.get(colorKey(s, colorBy)) || "#94a3b8",
+      theme,
+      hoveredGroupKey: null,
+      setHoveredGroupKey: () => {},
+      toggleTooltip: () => {},
+    })
+  );
+  const parsed = new DOMParser().parseFromString(
+    markup.replace("<svg ", `<svg xmlns="${NS}" `),
+    "image/svg+xml"
+  );
+
+  const svg = document.importNode(parsed.documentElement, true) as unknown as SVGSVGElement;
+
+  return composeExportSvg(svg, {
+    title: withTitle ? `Room: ${room}` : "",
+    filterLabel,
+    legendItems,
+    legendColors: colors,
+    theme,
+  });
+}
+
+export function serializeSvg({ svg }: ComposedSvg): string {
+  return new XMLSerializer().serializeToString(svg);
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadSvg(composed: ComposedSvg, fileName: string) {
+  downloadBlob(new Blob([serializeSvg(composed)], { type: "image/svg+xml;charset=utf-8" }), fileName);
+}
+
+//Rasterised at 2x through a canvas
+export function renderPng(composed: ComposedSvg): Promise<Blob> {
+  const url = URL.createObjectURL(
+    new Blob([serializeSvg(composed)], { type: "image/svg+xml;charset=utf-8" })
+  );
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = 2;
+      const canvas = document.createElement("canvas");
+      canvas.width = composed.width * scale;
+      canvas.height = composed.height * scale;
+
+      const ctx = canvas.getContext("2d");
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error("Canvas is not available"));
+        return;
+      }
+
+      ctx.scale(scale, scale);
+      ctx.fillStyle = composed.background;
+      ctx.fillRect(0, 0, composed.width, composed.height);
+      ctx.drawImage(img, 0, 0);
+      URL.revokeObjectURL(url);
+
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode PNG"))), "image/png");
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not draw the schedule"));
+    };
+
+    img.src = url;
+  });
+}
+
+export async function downloadPng(composed: ComposedSvg, fileName: string) {
+  downloadBlob(await renderPng(composed), fileName);
+}
+
+type SchedulePdf = {
+  addPage: (page: SchedulePage) => Promise<void>;
+  toBlob: () => Blob;
+};
+
+//One landscape Letter page per schedule, with a text header above the vector grid.
+//The PDF libraries are only loaded when a PDF is requested.
+export async function createSchedulePdf(): Promise<SchedulePdf> {
+  const [{ jsPDF }, { svg2pdf }] = await Promise.all([import("jspdf"), import("svg2pdf.js")]);
+
+  const doc = new jsPDF({ orientation: "landscape", unit: "pt", format: "letter" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 36;
+  const top = margin + 40;
+  let pageCount = 0;
+
+  async function addPage(page: SchedulePage) {
+    if (pageCount > 0) doc.addPage();
+    pageCount++;
+
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.setTextColor(17, 17, 17);
+    doc.text(page.title, margin, margin + 6);
+
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(107, 114, 128);
+    doc.text(page.details.join("   |   "), margin, margin + 24);
+
+    const { svg, width, height } = page.schedule;
+    const scale = Math.min((pageWidth - margin * 2) / width, (pageHeight - top - margin) / height);
+    svg.setAttribute("font-family", "Helvetica, Arial, sans-serif");
+
+    //svg2pdf reads computed styles, so the SVG is attached off screen while it converts
+    const holder = document.createElement("div");
+    holder.style.position = "fixed";
+    holder.style.left = "-100000px";
+    holder.appendChild(svg);
+    document.body.appendChild(holder);
+    try {
+      await svg2pdf(svg, doc, { x: margin, y: top, width: width * scale, height: height * scale });
+    } finally {
+      holder.remove();
+    }
+  }
+
+  return { addPage, toBlob: () => doc.output("blob") };
+}
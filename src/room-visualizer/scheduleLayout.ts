@@ -0,0 +1,147 @@
+import type { SessionInstance } from "./types";
+import { timeToMinutes } from "./utils";
+
+export type PlacedSession = SessionInstance & {
+  lane: number;
+  lanes: number;
+};
+
+type LayoutInput = {
+  sessions: SessionInstance[];
+  ghostSessions: SessionInstance[];
+  dateColumns: string[];
+  columnKeyFor: (s: SessionInstance) => string;
+  containerWidth: number;
+  effectiveMin: number;
+  effectiveMax: number;
+};
+
+//Geometry shared by the on-screen grid and every export
+export type ScheduleLayout = {
+  width: number;
+  height: number;
+  dateColumns: string[];
+  hourTicks: number[];
+  effectiveMin: number;
+  hourHeight: number;
+  headerH: number;
+  gutter: number;
+  labelW: number;
+  colWidth: number;
+  lanesByDate: Map<string, PlacedSession[]>;
+  ghostsByDate: Map<string, SessionInstance[]>;
+  yFor: (date: Date) => number;
+};
+
+// ---- Layout constants ----
+const gutter = 8;
+const hourHeight = 50; // px per hour
+const headerH = 32;
+const labelW = 80; // y-axis label width
+const minColWidth = 140;
+
+//Hours needed to show every session (and an optional highlighted window)
+export function getAutoHourRange(
+  sessions: SessionInstance[],
+  highlight: { start: Date; end: Date } | null = null
+): [number, number] {
+  if (!sessions.length && !highlight) return [7, 22];
+  let minM = Infinity, maxM = -Infinity;
+  for (const s of sessions) {
+    minM = Math.min(minM, timeToMinutes(s.start));
+    maxM = Math.max(maxM, timeToMinutes(s.end));
+  }
+  if (highlight) {
+    minM = Math.min(minM, timeToMinutes(highlight.start));
+    maxM = Math.max(maxM, timeToMinutes(highlight.end));
+  }
+  // Pad 30 minutes each side
+  minM = Math.floor(Math.max(0, minM - 30) / 60);
+  maxM = Math.ceil(Math.min(24 * 60, maxM + 30) / 60);
+  return [minM, maxM];
+}
+
+export function layoutSchedule({
+  sessions,
+  ghostSessions,
+  dateColumns,
+  columnKeyFor,
+  containerWidth,
+  effectiveMin,
+  effectiveMax,
+}: LayoutInput): ScheduleLayout {
+  const availableGraphWidth = Math.max(
+    0,
+    containerWidth - labelW - gutter * 2 - gutter * (dateColumns.length - 1)
+  );
+
+  const colWidth =
+    dateColumns.length > 0
+      ? Math.max(minColWidth, Math.floor(availableGraphWidth / dateColumns.length))
+      : minColWidth;
+
+  function yFor(date: Date) {
+    const minutes = (date.getHours() - effectiveMin) * 60 + date.getMinutes();
+    return headerH + gutter + (minutes / 60) * hourHeight;
+  }
+
+  // Build hour ticks
+  const hourTicks: number[] = [];
+  for (let h = effectiveMin; h <= effectiveMax; h++) hourTicks.push(h);
+
+  //Layout const with hour ticks
+  const contentWidth = labelW + gutter + dateColumns.length * colWidth + (dateColumns.length - 1) * gutter + gutter;
+  const width = Math.max(containerWidth, contentWidth);
+  const height = headerH + (hourTicks[hourTicks.length - 1] - effectiveMin) * hourHeight + gutter * 2;
+
+  // Group sessions by date string for collision handling
+  const byDate = new Map<string, SessionInstance[]>();
+  for (const day of dateColumns) {
+    byDate.set(day, []);
+  }
+  for (const s of sessions) {
+    const key = columnKeyFor(s);
+    if (!byDate.has(key)) byDate.set(key, []);
+    byDate.get(key)!.push(s);
+  }
+
+  const ghostsByDate = new Map<string, SessionInstance[]>();
+  for (const s of ghostSessions) {
+    const key = columnKeyFor(s);
+    if (!ghostsByDate.has(key)) ghostsByDate.set(key, []);
+    ghostsByDate.get(key)!.push(s);
+  }
+
+  // Within each date, handle overlaps by simple lane assignment
+  const lanesByDate = new Map<string, PlacedSession[]>();
+
+  for (const [d, list] of byDate.entries()) {
+    const items = [...list].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const lanes: Date[] = []; // end time per lane
+    const placed: PlacedSession[] = [];
+    for (const it of items) {
+      let lane = lanes.findIndex(end => end.getTime() <= it.start.getTime());
+      if (lane === -1) { lane = lanes.length; lanes.push(it.end); } else { lanes[lane] = it.end; }
+      placed.push({ ...it, lane, lanes: 0 });
+    }
+    const total = Math.max(1, lanes.length);
+    for (const p of placed) p.lanes = total;
+    lanesByDate.set(d, placed);
+  }
+
+  return {
+    width,
+    height,
+    dateColumns,
+    hourTicks,
+    effectiveMin,
+    hourHeight,
+    headerH,
+    gutter,
+    labelW,
+    colWidth,
+    lanesByDate,
+    ghostsByDate,
+    yFor,
+  };
+}
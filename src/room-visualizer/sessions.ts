@@ -0,0 +1,195 @@
+import { isAfter, isEqual } from "date-fns";
+import { generateOccurrencesInWeek, type CalendarOccurrence } from "./academicCalendar";
+import { getMaxEnrollment, parseFeatureList } from "./roomInventory";
+import type { CalendarEntry, Row, SessionInstance } from "./types";
+import {
+  distinct,
+  getBuilding,
+  generateWeeklyOccurrences,
+  getBaseCourse,
+  getSectionNumber,
+  parseExcelDate,
+  parseTimeOnDate,
+  WEEKDAY_COLUMNS,
+} from "./utils";
+
+//Expand matching rows into per-day session blocks, merging sections that meet together
+//(same course and instructor, or a cross-listed/co-taught group from findCrossListGroups(rows)).
+//With a weekStart, only sessions whose term dates cover that calendar week are produced,
+//following the academic calendar's makeup days and flagging closed days.
+export function buildSessions(
+  rows: Row[],
+  matches: (row: Row) => boolean,
+  crossListGroups: Map<number, string>,
+  weekStart: Date | null = null,
+  calendar: CalendarEntry[] = []
+): SessionInstance[] {
+  const out: SessionInstance[] = [];
+
+  for (const [rowIndex, r] of rows.entries()) {
+    if (!matches(r)) continue;
+
+    const weeklyDates: CalendarOccurrence[] = weekStart
+      ? generateOccurrencesInWeek(r, weekStart, calendar)
+      : generateWeeklyOccurrences(r);
+
+    for (const { dayCode, date, closedReason, makeupFor } of weeklyDates) {
+      const start = parseTimeOnDate(date, r.startTime);
+      const end = parseTimeOnDate(date, r.endTime);
+
+      if (isNaN(start.getTime()) || isNaN(end.getTime())) continue;
+      if (isAfter(start, end) || isEqual(start, end)) continue;
+
+      const courseSection = r.courseSection || "";
+      const sectionNumber = getSectionNumber(courseSection);
+
+      out.push({
+        date,
+        dayCode,
+        start,
+        end,
+        instructor: r.instructor || "Unknown",
+        courseSection,
+        room: r.room || "",
+        baseCourse: getBaseCourse(courseSection),
+        sections: sectionNumber ? [sectionNumber] : [],
+        daysMet: r.daysMet || "",
+        startDate: r.startDate || "",
+        endDate: r.endDate || "",
+        term: r.term || "",
+        status: r.status || "",
+        courseOfferingIds: r.courseOfferingId ? [String(r.courseOfferingId)] : [],
+        rowIndices: [rowIndex],
+        crossListGroup: crossListGroups.get(rowIndex),
+        crossListedCourses: courseSection ? [courseSection] : [],
+        sourceSheets: r.sourceSheet ? [r.sourceSheet] : [],
+        maxEnrollment: getMaxEnrollment(r),
+        requiredFeatures: parseFeatureList(r.requiredFeatures),
+        closedReason,
+        makeupFor,
+      });
+    }
+  }
+
+  const merged = new Map<string, SessionInstance>();
+  const mergedInstructors = new Map<SessionInstance, string[]>();
+
+  for (const session of out) {
+    //A cross-listed group is one block whatever its courses and instructors
+    const key = [
+      session.crossListGroup ?? session.baseCourse,
+      session.dayCode,
+      session.start.getHours(),
+      session.start.getMinutes(),
+      session.end.getHours(),
+      session.end.getMinutes(),
+      session.room,
+      session.crossListGroup ? "" : session.instructor,
+    ].join("|");
+
+    const existing = merged.get(key);
+
+    if (existing) {
+      existing.sections.push(...session.sections);
+      existing.courseOfferingIds.push(...session.courseOfferingIds);
+      existing.rowIndices.push(...session.rowIndices);
+      existing.crossListedCourses.push(...session.crossListedCourses);
+      mergedInstructors.get(existing)!.push(session.instructor);
+      existing.sourceSheets.push(...session.sourceSheets);
+      existing.requiredFeatures.push(...session.requiredFeatures);
+      if (session.maxEnrollment !== null) {
+        existing.maxEnrollment = (existing.maxEnrollment ?? 0) + session.maxEnrollment;
+      }
+    } else {
+      const copy: SessionInstance = {
+        ...session,
+        sections: [...session.sections],
+        courseOfferingIds: [...session.courseOfferingIds],
+        rowIndices: [...session.rowIndices],
+        sourceSheets: [...session.sourceSheets],
+        requiredFeatures: [...session.requiredFeatures],
+        crossListedCourses: [...session.crossListedCourses],
+      };
+      merged.set(key, copy);
+      mergedInstructors.set(copy, [session.instructor]);
+    }
+  }
+
+  const deduped = Array.from(merged.values()).map(session => {
+    const courses = distinct(session.crossListedCourses);
+    const baseCourses = distinct(courses.map(getBaseCourse));
+    const crossListed = baseCourses.length > 1;
+
+    return {
+      ...session,
+      baseCourse: crossListed ? baseCourses.join(" / ") : session.baseCourse,
+      instructor: distinct(mergedInstructors.get(session)!).join(", "),
+      crossListedCourses: crossListed ? courses : [],
+      sections: Array.from(new Set(session.sections)).sort((a, b) => Number(a) - Number(b)),
+      courseOfferingIds: Array.from(new Set(session.courseOfferingIds)).sort(),
+      sourceSheets: distinct(session.sourceSheets),
+      requiredFeatures: distinct(session.requiredFeatures),
+    };
+  });
+
+  deduped.sort(
+    (a, b) =>
+      WEEKDAY_COLUMNS.indexOf(a.dayCode as (typeof WEEKDAY_COLUMNS)[number]) - WEEKDAY_COLUMNS.indexOf(b.dayCode as (typeof WEEKDAY_COLUMNS)[number]) ||
+      a.start.getTime() - b.start.getTime()
+  );
+
+  return deduped;
+}
+
+export type TightTransfer = {
+  from: SessionInstance;
+  to: SessionInstance;
+  gapMinutes: number;
+};
+
+//Whether two sessions' term dates share at least one day; unreadable dates count as overlapping
+function dateRangesOverlap(a: SessionInstance, b: SessionInstance): boolean {
+  const [aStart, aEnd, bStart, bEnd] = [a.startDate, a.endDate, b.startDate, b.endDate].map(parseExcelDate);
+  if (!aStart || !aEnd || !bStart || !bEnd) return true;
+  return aStart <= bEnd && bStart <= aEnd;
+}
+
+//Sessions in different buildings with too little passing time between them.
+//Each session is paired with the next one in the same term that starts once it has
+//ended and whose date range overlaps its own.
+export function findTightTransfers(
+  sessions: SessionInstance[],
+  maxGapMinutes: number
+): TightTransfer[] {
+  const byDay = new Map<string, SessionInstance[]>();
+  for (const s of sessions) {
+    if (s.closedReason) continue;
+    const key = `${s.term}|${s.dayCode}|${s.date.toDateString()}`;
+    if (!byDay.has(key)) byDay.set(key, []);
+    byDay.get(key)!.push(s);
+  }
+
+  const out: TightTransfer[] = [];
+
+  for (const list of byDay.values()) {
+    const sorted = [...list].sort((a, b) => a.start.getTime() - b.start.getTime());
+    for (const [i, from] of sorted.entries()) {
+      let nextStart: number | null = null;
+
+      for (const to of sorted.slice(i + 1)) {
+        if (to.start < from.end || !dateRangesOverlap(from, to)) continue;
+        //Sessions starting together are all "next"; anything later is not
+        if (nextStart !== null && to.start.getTime() !== nextStart) break;
+        nextStart = to.start.getTime();
+
+        const gapMinutes = (to.start.getTime() - from.end.getTime()) / 60000;
+        if (gapMinutes > maxGapMinutes) break;
+        if (getBuilding(from.room) === getBuilding(to.room)) continue;
+
+        out.push({ from, to, gapMinutes });
+      }
+    }
+  }
+
+  return out;
+}
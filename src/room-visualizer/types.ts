@@ -11,6 +11,83 @@ export type Row = {
   maxEnrollment?: string | number;
   status?: string;
   term?: string;
+  crossListId?: string;
+  requiredFeatures?: string;
+  sourceSheet?: string;
+  sourceRow?: number;
+};
+
+//"room" shows one room's week; "rooms" puts several rooms side by side for one day;
+//"instructor" pivots the week on one instructor across rooms
+export type ViewMode = "room" | "rooms" | "instructor";
+
+//"weekly" folds every term onto one pattern week; "dated" shows a real calendar week
+export type DateMode = "weekly" | "dated";
+
+//What decides a block's color; "room" is how the instructor view tells rooms apart
+export type ColorDimension = "instructor" | "room" | "subject" | "status" | "term" | "enrollment";
+
+//Colors picked by hand, by dimension and then by value, e.g. { status: { Tentative: "#f0e442" } }
+export type ColorOverrides = Partial<Record<ColorDimension, Record<string, string>>>;
+
+//Holidays and breaks close campus; a makeup day follows another weekday's schedule
+export type CalendarEntryType = "holiday" | "break" | "makeup";
+
+export type CalendarEntry = {
+  type: CalendarEntryType;
+  label: string;
+  startDate: string; // yyyy-MM-dd
+  endDate: string; // yyyy-MM-dd, same as startDate for single days
+  followsDay?: string; // weekday code a makeup day follows
+};
+
+//A free slot picked in the room finder, outlined on that room's grid
+export type HighlightSlot = {
+  room: string;
+  days: string[];
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+};
+
+//One room from the imported room inventory
+export type RoomInfo = {
+  room: string;
+  building: string;
+  capacity: number | null;
+  features: string[]; // lower-case, e.g. "projector", "lab benches"
+};
+
+//A second schedule loaded to diff against the main one
+export type Comparison = {
+  fileName: string;
+  rows: Row[];
+};
+
+//Row fields that are read from spreadsheet columns
+export type RowField = Exclude<keyof Row, "sourceSheet" | "sourceRow">;
+
+//Maps each Row field to the source header it is read from
+export type ColumnMapping = Partial<Record<RowField, string>>;
+
+//One imported sheet as it was read. records and rowNumbers line up and keep the columns
+//the app does not map.
+export type ImportedSheet = {
+  name: string; // "" for CSV and text files
+  headers: string[];
+  records: Record<string, unknown>[];
+  rowNumbers: number[];
+};
+
+//The sheets and columns a file was read from, so edits can be written back the same way
+export type ImportLayout = {
+  mapping: ColumnMapping;
+  sheets: ImportedSheet[];
+};
+
+export type MappingProfile = {
+  name: string;
+  headers: string[];
+  mapping: ColumnMapping;
 };
 
 export type SessionInstance = {
@@ -29,10 +106,46 @@ export type SessionInstance = {
   term: string;
   status: string;
   courseOfferingIds: string[];
+  rowIndices: number[]; // rows in the loaded file this block was built from
+  crossListGroup?: string;
+  crossListedCourses: string[]; // every Course/Section in a cross-listed block
+  sourceSheets: string[];
+  maxEnrollment: number | null; // combined across merged sections
+  requiredFeatures: string[];
+  closedReason?: string;
+  makeupFor?: string;
+};
+
+export type ValidationIssueCode =
+  | "header-problem"
+  | "missing-data"
+  | "room-conflict"
+  | "instructor-conflict"
+  | "over-capacity"
+  | "missing-feature"
+  | "unknown-room"
+  | "short-turnover"
+  | "instructor-overload"
+  | "early-start"
+  | "reserved-hours"
+  | "off-grid-start";
+
+export type ValidationSeverity = "error" | "warning" | "info";
+
+export type ValidationIssue = {
+  code: ValidationIssueCode;
+  severity: ValidationSeverity;
+  message: string;
+  rowIndices: number[]; // indices into the loaded rows
+  offeringIds: string[];
+  room: string;
+  term: string;
+  instructors: string[];
 };
 
 export type ValidationSchedRow = {
   row: Row;
+  rowIndex: number;
   startDateObj: Date;
   endDateObj: Date;
   startTimeObj: Date;
@@ -43,4 +156,66 @@ export type ValidationSchedRow = {
   status: string;
   courseSection: string;
   daysMet: string;
-};
\ No newline at end of file
+};
+
+export type ValidationRuleId =
+  | "missing-data"
+  | "room-conflict"
+  | "instructor-conflict"
+  | "room-inventory"
+  | "room-turnover"
+  | "instructor-daily-hours"
+  | "earliest-start"
+  | "reserved-hours"
+  | "meeting-grid";
+
+//Parameters are kept as the text typed into the rule settings
+export type ValidationRuleSetting = {
+  enabled: boolean;
+  params: Record<string, string>;
+};
+
+export type ValidationRuleConfig = Record<ValidationRuleId, ValidationRuleSetting>;
+
+//An uploaded schedule as kept in the browser between visits
+export type SavedFile = {
+  fileName: string;
+  savedAt: number; // ms since epoch
+  rows: Row[];
+  detectedHeaders: string[];
+  formatErrors: string[];
+  layout: ImportLayout;
+};
+
+export type RecentFile = {
+  fileName: string;
+  savedAt: number;
+  rowCount: number;
+};
+
+//Narrows the rows on the schedule and in exports. An empty list allows every value;
+//dates are yyyy-MM-dd, "" for no limit on that side.
+export type RowFilters = {
+  terms: string[];
+  statuses: string[];
+  subjects: string[];
+  instructors: string[];
+  dateFrom: string;
+  dateTo: string;
+};
+
+//What was on screen when the page was last used
+export type SavedViewState = {
+  fileName: string;
+  room: string;
+  minHour: number;
+  maxHour: number;
+  filters: RowFilters;
+  colorBy: ColorDimension;
+  dateMode: DateMode;
+  weekStart: Date | null;
+  viewMode: ViewMode;
+  multiRoomDay: string;
+  multiRooms: string[];
+  instructor: string;
+};
@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from "react";
+import type { ScheduleLayout } from "./scheduleLayout";
+import { sessionMinutes, snapMinutes } from "./scheduleEditing";
+import type { SessionInstance } from "./types";
+
+export type DragMode = "move" | "resize";
+
+//Where a dragged block would land; times are minutes after midnight
+export type DropTarget = {
+  column: string;
+  startMinutes: number;
+  endMinutes: number;
+};
+
+type DragOrigin = DropTarget & {
+  session: SessionInstance;
+  mode: DragMode;
+  svgLeft: number;
+  startX: number;
+  startY: number;
+};
+
+//Pixels the pointer must travel before a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+//Blocks end by 11:55 PM so they stay on the same day
+const LAST_MINUTE = 24 * 60 - 5;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function targetFor(origin: DragOrigin, layout: ScheduleLayout, step: number, e: PointerEvent): DropTarget {
+  const deltaMinutes = ((e.clientY - origin.startY) / layout.hourHeight) * 60;
+
+  if (origin.mode === "resize") {
+    return {
+      column: origin.column,
+      startMinutes: origin.startMinutes,
+      endMinutes: clamp(snapMinutes(origin.endMinutes + deltaMinutes, step), origin.startMinutes + step, LAST_MINUTE),
+    };
+  }
+
+  const duration = origin.endMinutes - origin.startMinutes;
+  const startMinutes = clamp(snapMinutes(origin.startMinutes + deltaMinutes, step), 0, LAST_MINUTE - duration);
+  const x = e.clientX - origin.svgLeft;
+  const columnIdx = clamp(
+    Math.floor((x - layout.labelW - layout.gutter) / (layout.colWidth + layout.gutter)),
+    0,
+    layout.dateColumns.length - 1
+  );
+
+  return {
+    column: layout.dateColumns[columnIdx] ?? origin.column,
+    startMinutes,
+    endMinutes: startMinutes + duration,
+  };
+}
+
+//Pointer dragging for session blocks: moving changes the column and start time,
+//resizing the bottom edge changes the end time. Both snap to `step` minutes.
+export function useBlockDrag({
+  layout,
+  step,
+  columnKeyFor,
+  onDrop,
+}: {
+  layout: ScheduleLayout;
+  step: number;
+  columnKeyFor: (s: SessionInstance) => string;
+  onDrop: (session: SessionInstance, target: DropTarget) => void;
+}) {
+  const originRef = useRef<DragOrigin | null>(null);
+  const suppressClickRef = useRef(false);
+  const [dragging, setDragging] = useState(false);
+  const [preview, setPreview] = useState<(DropTarget & { session: SessionInstance }) | null>(null);
+
+  //The latest props, read by the window listeners so they are added once per drag
+  const latestRef = useRef({ layout, step, onDrop });
+  useEffect(() => {
+    latestRef.current = { layout, step, onDrop };
+  });
+
+  function beginDrag(e: ReactPointerEvent<SVGElement>, session: SessionInstance, mode: DragMode) {
+    const svg = e.currentTarget.ownerSVGElement;
+    if (e.button !== 0 || !svg) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    originRef.current = {
+      session,
+      mode,
+      svgLeft: svg.getBoundingClientRect().left,
+      startX: e.clientX,
+      startY: e.clientY,
+      column: columnKeyFor(session),
+      ...sessionMinutes(session),
+    };
+    setDragging(true);
+  }
+
+  useEffect(() => {
+    if (!dragging) return;
+
+    function isDrag(e: PointerEvent, origin: DragOrigin) {
+      return Math.abs(e.clientX - origin.startX) > DRAG_THRESHOLD || Math.abs(e.clientY - origin.startY) > DRAG_THRESHOLD;
+    }
+
+    function onMove(e: PointerEvent) {
+      const origin = originRef.current;
+      if (!origin || !isDrag(e, origin)) return;
+      const { layout, step } = latestRef.current;
+      setPreview({ session: origin.session, ...targetFor(origin, layout, step, e) });
+    }
+
+    function onUp(e: PointerEvent) {
+      const origin = originRef.current;
+      originRef.current = null;
+      setDragging(false);
+      setPreview(null);
+      if (!origin || !isDrag(e, origin)) return;
+
+      //The click that follows a drag should not open the tooltip
+      suppressClickRef.current = true;
+      setTimeout(() => {
+        suppressClickRef.current = false;
+      }, 0);
+
+      const { layout, step, onDrop } = latestRef.current;
+      const target = targetFor(origin, layout, step, e);
+      if (
+        target.column !== origin.column ||
+        target.startMinutes !== origin.startMinutes ||
+        target.endMinutes !== origin.endMinutes
+      ) {
+        onDrop(origin.session, target);
+      }
+    }
+
+    function onCancel() {
+      originRef.current = null;
+      setDragging(false);
+      setPreview(null);
+    }
+
+    window.addEventListener("pointermove", onMove);
+    window.addEventListener("pointerup", onUp);
+    window.addEventListener("pointercancel", onCancel);
+    return () => {
+      window.removeEventListener("pointermove", onMove);
+      window.removeEventListener("pointerup", onUp);
+      window.removeEventListener("pointercancel", onCancel);
+    };
+  }, [dragging]);
+
+  return {
+    beginDrag,
+    preview,
+    //True right after a drag, so the block's click handler can ignore it
+    isClickSuppressed: () => suppressClickRef.current,
+  };
+}
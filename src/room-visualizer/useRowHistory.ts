@@ -0,0 +1,45 @@
+import { useState } from "react";
+import type { Row } from "./types";
+
+type History = {
+  rows: Row[]; // the rows the stacks belong to
+  past: Row[][];
+  future: Row[][];
+};
+
+const HISTORY_LIMIT = 100;
+
+//Undo and redo for edits made in the app. Rows replaced from outside (a new upload,
+//a recent file) no longer match the stored rows, which starts a fresh history.
+export function useRowHistory(rows: Row[], setRows: (rows: Row[]) => void) {
+  const [history, setHistory] = useState<History>({ rows, past: [], future: [] });
+  const current = history.rows === rows ? history : { rows, past: [], future: [] };
+
+  function commit(next: Row[]) {
+    setHistory({ rows: next, past: [...current.past, rows].slice(-HISTORY_LIMIT), future: [] });
+    setRows(next);
+  }
+
+  function undo() {
+    const previous = current.past[current.past.length - 1];
+    if (!previous) return;
+    setHistory({ rows: previous, past: current.past.slice(0, -1), future: [rows, ...current.future] });
+    setRows(previous);
+  }
+
+  function redo() {
+    const [next, ...rest] = current.future;
+    if (!next) return;
+    setHistory({ rows: next, past: [...current.past, rows], future: rest });
+    setRows(next);
+  }
+
+  return {
+    commit,
+    undo,
+    redo,
+    canUndo: current.past.length > 0,
+    canRedo: current.future.length > 0,
+    editCount: current.past.length,
+  };
+}
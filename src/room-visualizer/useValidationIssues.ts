@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import type { ValidationRequest, ValidationResponse } from "./validation.worker";
+import type { ValidationIssue } from "./types";
+import { validateSchedule } from "./validationRules";
+
+type ValidationResult = {
+  request: ValidationRequest;
+  issues: ValidationIssue[];
+};
+
+//Every validation rule, conflicts included, computed in a Web Worker so large files
+//do not block the page. Pass a memoized request: a new object starts a new run.
+//Returns the latest finished result and whether a newer run is pending.
+export function useValidationIssues(request: ValidationRequest) {
+  const [result, setResult] = useState<ValidationResult | null>(null);
+
+  useEffect(() => {
+    if (typeof Worker === "undefined") {
+      const issues = validateSchedule(request);
+      queueMicrotask(() => setResult({ request, issues }));
+      return;
+    }
+
+    //A new worker per run; terminating it drops work for data that has since changed
+    const worker = new Worker(new URL("./validation.worker.ts", import.meta.url), {
+      type: "module",
+    });
+
+    worker.onmessage = (e: MessageEvent<ValidationResponse>) => {
+      setResult({ request, issues: e.data.issues });
+      worker.terminate();
+    };
+
+    worker.onerror = () => {
+      setResult({ request, issues: validateSchedule(request) });
+      worker.terminate();
+    };
+
+    worker.postMessage(request);
+
+    return () => worker.terminate();
+  }, [request]);
+
+  const pending = !result || result.request !== request;
+
+  return {
+    validationIssues: result && !pending ? result.issues : [],
+    checkingValidation: pending,
+  };
+}
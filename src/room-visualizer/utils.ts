@@ -1,13 +1,17 @@
-import { format, parse } from "date-fns";
+import { addDays, format, parse, startOfDay, startOfWeek } from "date-fns";
 import { COLOR_PALETTE } from "./constants";
 import type { Row, SessionInstance } from "./types";
 
 export function parseExcelDate(v: any): Date | null {
   if (v == null || v === "") return null;
 
+  //Excel serials count days from 1899-12-30; build the date in local time so
+  //calendar comparisons and display do not shift by a day west of UTC
   if (typeof v === "number") {
-    const epoch = new Date(Date.UTC(1899, 11, 30));
-    return new Date(epoch.getTime() + v * 24 * 60 * 60 * 1000);
+    const days = Math.floor(v);
+    const d = new Date(1899, 11, 30 + days);
+    d.setTime(d.getTime() + Math.round((v - days) * 24 * 60 * 60 * 1000));
+    return d;
   }
 
   if (typeof v === "string") {
@@ -26,6 +30,14 @@ export function parseExcelDate(v: any): Date | null {
   return null;
 }
 
+//First value whose header matches one of the lower-case names
+export function pickColumn(record: Record<string, unknown>, names: string[]): unknown {
+  for (const [k, v] of Object.entries(record)) {
+    if (names.includes(k.trim().toLowerCase())) return v;
+  }
+  return "";
+}
+
 export function parseTimeOnDate(date: Date, timeValue: string | number): Date {
   const d = new Date(date);
 
@@ -82,12 +94,23 @@ export function distinct<T>(arr: T[]): T[] {
   return Array.from(new Set(arr));
 }
 
-export function assignColors(names: string[]): Map<string, string> {
-  const m = new Map<string, string>();
-  names.forEach((n, idx) => {
-    m.set(n, COLOR_PALETTE[idx % COLOR_PALETTE.length]);
-  });
-  return m;
+//FNV-1a, so a name gets the same color whatever else is on screen
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function colorForName(name: string): string {
+  return COLOR_PALETTE[hashString(name) % COLOR_PALETTE.length];
+}
+
+//Overrides win over the hashed color
+export function assignColors(names: string[], overrides: Record<string, string> = {}): Map<string, string> {
+  return new Map(names.map(n => [n, overrides[n] ?? colorForName(n)]));
 }
 
 export function timeToMinutes(d: Date): number {
@@ -98,16 +121,28 @@ export function getBaseCourse(courseSection: string): string {
   return courseSection.replace(/\/\d+/, "").replace(/\s+/g, " ").trim();
 }
 
+//Building prefix of a room name, e.g. "EABB" for "EABB 113"
+export function getBuilding(room: string): string {
+  return room.trim().split(/[\s-]+/)[0] || "";
+}
+
 export function getSectionNumber(courseSection: string): string | null {
   const match = courseSection.match(/\/(\d+)/);
   return match ? match[1] : null;
 }
 
 export function formatSectionLabel(session: SessionInstance): string {
+  if (session.crossListedCourses.length > 1) return session.crossListedCourses.join(" / ");
   if (session.sections.length <= 1) return session.courseSection;
   return `${session.baseCourse} (${session.sections.join(", ")})`;
 }
 
+//"Row 12" or 'Sheet "Fall" row 12' when the row came from a named worksheet
+export function describeRowSource(row: Row, idx: number): string {
+  const rowNumber = row.sourceRow ?? idx + 2;
+  return row.sourceSheet ? `Sheet "${row.sourceSheet}" row ${rowNumber}` : `Row ${rowNumber}`;
+}
+
 export function formatDisplayDate(value: string | number): string {
   const d = parseExcelDate(value);
   return d ? format(d, "M/d/yyyy") : String(value || "—");
@@ -163,6 +198,16 @@ export function generateWeeklyOccurrences(row: Row): { dayCode: string; date: Da
     .filter((x): x is { dayCode: string; date: Date } => x !== null);
 }
 
+//Sunday that starts the calendar week containing date, matching WEEKDAY_COLUMNS order
+export function getWeekStart(date: Date): Date {
+  return startOfWeek(startOfDay(date), { weekStartsOn: 0 });
+}
+
+export function getDateForDayInWeek(weekStart: Date, dayCode: string): Date | null {
+  const offset = WEEKDAY_COLUMNS.indexOf(dayCode as (typeof WEEKDAY_COLUMNS)[number]);
+  return offset === -1 ? null : addDays(weekStart, offset);
+}
+
 export function getContrastTextColor(hex: string): string {
   const clean = hex.replace("#", "");
 
@@ -178,6 +223,19 @@ export function getContrastTextColor(hex: string): string {
   return luminance > 0.6 ? "#111111" : "#f8fafc";
 }
 
+//Identifies one block on the grid
+export function getSessionKey(session: SessionInstance): string {
+  return [
+    session.baseCourse,
+    session.instructor,
+    session.room,
+    session.date.getTime(),
+    session.start.getTime(),
+    session.end.getTime(),
+    session.courseOfferingIds.join(","),
+  ].join("|");
+}
+
 //Hover highlighting
 export function getSessionHoverGroupKey(session: Pick<SessionInstance, "baseCourse" | "instructor" | "room">): string {
   return [session.baseCourse, session.instructor, session.room].join("|");
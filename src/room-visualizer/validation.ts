@@ -0,0 +1,196 @@
+import { isAfter, isEqual } from "date-fns";
+import { getMaxEnrollment, getMissingFeatures, parseFeatureList } from "./roomInventory";
+import type {
+  RoomInfo,
+  Row,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationSchedRow,
+} from "./types";
+import { describeRowSource, distinct, parseExcelDate, parseTimeOnDate } from "./utils";
+
+export const ISSUE_CODE_LABELS: Record<ValidationIssueCode, string> = {
+  "header-problem": "Header problem",
+  "missing-data": "Missing data",
+  "room-conflict": "Room conflict",
+  "instructor-conflict": "Instructor conflict",
+  "over-capacity": "Over capacity",
+  "missing-feature": "Missing room feature",
+  "unknown-room": "Room not in inventory",
+  "short-turnover": "Short room turnover",
+  "instructor-overload": "Instructor daily load",
+  "early-start": "Early start",
+  "reserved-hours": "Reserved hours",
+  "off-grid-start": "Off-grid start time",
+};
+
+export function offeringIdsOf(rows: Row[]): string[] {
+  return Array.from(
+    new Set(rows.map(r => String(r.courseOfferingId ?? "").trim()).filter(Boolean))
+  );
+}
+
+//Identical messages (e.g. sections merged into one block) collapse into one issue
+export function dedupeIssues(issues: ValidationIssue[]): ValidationIssue[] {
+  const byKey = new Map<string, ValidationIssue>();
+  for (const issue of issues) {
+    const key = `${issue.code}|${issue.message}`;
+    const existing = byKey.get(key);
+    if (!existing) {
+      byKey.set(key, issue);
+      continue;
+    }
+    existing.rowIndices = Array.from(new Set([...existing.rowIndices, ...issue.rowIndices]));
+    existing.offeringIds = Array.from(new Set([...existing.offeringIds, ...issue.offeringIds]));
+  }
+  return Array.from(byKey.values());
+}
+
+//Rows with everything needed to place them in time, for conflict detection
+export function getSchedulableRows(rows: Row[]): ValidationSchedRow[] {
+  const out: ValidationSchedRow[] = [];
+
+  rows.forEach((r, rowIndex) => {
+    const startDateObj = parseExcelDate(r.startDate);
+    const endDateObj = parseExcelDate(r.endDate);
+
+    if (!startDateObj || !endDateObj) return;
+    if (!r.startTime || !r.endTime) return;
+    if (!r.daysMet) return;
+    if (!r.term) return;
+    if (!r.status) return;
+
+    const startTimeObj = parseTimeOnDate(startDateObj, r.startTime);
+    const endTimeObj = parseTimeOnDate(startDateObj, r.endTime);
+
+    if (isNaN(startTimeObj.getTime()) || isNaN(endTimeObj.getTime())) return;
+    if (isAfter(startTimeObj, endTimeObj) || isEqual(startTimeObj, endTimeObj)) return;
+
+    out.push({
+      row: r,
+      rowIndex,
+      startDateObj,
+      endDateObj,
+      startTimeObj,
+      endTimeObj,
+      instructor: r.instructor || "Unknown",
+      room: r.room || "",
+      term: r.term || "",
+      status: r.status || "",
+      courseSection: r.courseSection || "",
+      daysMet: r.daysMet || "",
+    });
+  });
+
+  return out;
+}
+
+function issueForRow(r: Row, idx: number) {
+  return {
+    rowIndices: [idx],
+    offeringIds: offeringIdsOf([r]),
+    room: r.room || "",
+    term: r.term || "",
+    instructors: r.instructor ? [r.instructor] : [],
+  };
+}
+
+//Problems found while reading the file; always reported
+export function findHeaderIssues(formatErrors: string[]): ValidationIssue[] {
+  return formatErrors.map(message => ({
+    code: "header-problem",
+    severity: "error",
+    message,
+    rowIndices: [],
+    offeringIds: [],
+    room: "",
+    term: "",
+    instructors: [],
+  }));
+}
+
+export function findMissingDataIssues(rows: Row[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  rows.forEach((r, idx) => {
+    const missing: string[] = [];
+
+    if (!r.courseSection) missing.push("Course/Section");
+    if (!r.startDate) missing.push("Start Date");
+    if (!r.endDate) missing.push("End Date");
+    if (!r.daysMet) missing.push("Days Met");
+    if (!r.startTime) missing.push("Start Time");
+    if (!r.endTime) missing.push("End Time");
+    if (!r.room) missing.push("Room");
+    if (!r.instructor) missing.push("Instructor");
+    if (!r.term) missing.push("Term");
+    if (!r.status) missing.push("Status");
+
+    if (missing.length > 0) {
+      issues.push({
+        ...issueForRow(r, idx),
+        code: "missing-data",
+        severity: "info",
+        message: `${describeRowSource(r, idx)} (${r.courseSection || "Unknown course"}): missing ${missing.join(", ")}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+//Room inventory checks: seats and required features
+export function findInventoryIssues(
+  rows: Row[],
+  inventoryByRoom: Map<string, RoomInfo>
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (inventoryByRoom.size === 0) return issues;
+
+  const unknownRooms = new Map<string, number[]>();
+
+  rows.forEach((r, idx) => {
+    if (!r.room) return;
+    const info = inventoryByRoom.get(r.room);
+    if (!info) {
+      if (!unknownRooms.has(r.room)) unknownRooms.set(r.room, []);
+      unknownRooms.get(r.room)!.push(idx);
+      return;
+    }
+
+    const seats = getMaxEnrollment(r);
+    if (seats !== null && info.capacity !== null && seats > info.capacity) {
+      issues.push({
+        ...issueForRow(r, idx),
+        code: "over-capacity",
+        severity: "error",
+        message: `Over capacity: "${r.courseSection || "Unknown course"}" (${describeRowSource(r, idx)}) has Max Enrollment ${seats} but ${r.room} seats ${info.capacity}.`,
+      });
+    }
+
+    const missingFeatures = getMissingFeatures(parseFeatureList(r.requiredFeatures), info);
+    if (missingFeatures.length > 0) {
+      issues.push({
+        ...issueForRow(r, idx),
+        code: "missing-feature",
+        severity: "error",
+        message: `Missing room features: "${r.courseSection || "Unknown course"}" (${describeRowSource(r, idx)}) needs ${missingFeatures.join(", ")}, which ${r.room} does not have.`,
+      });
+    }
+  });
+
+  for (const [room, rowIndices] of unknownRooms) {
+    issues.push({
+      code: "unknown-room",
+      severity: "info",
+      message: `Room ${room} is not in the room inventory, so its capacity and features were not checked.`,
+      rowIndices,
+      offeringIds: offeringIdsOf(rowIndices.map(i => rows[i])),
+      room,
+      term: "",
+      instructors: distinct(rowIndices.map(i => rows[i].instructor).filter(Boolean)),
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,23 @@
+import type { CalendarEntry, RoomInfo, Row, ValidationIssue, ValidationRuleConfig } from "./types";
+import { validateSchedule } from "./validationRules";
+
+export type ValidationRequest = {
+  rows: Row[];
+  calendar: CalendarEntry[];
+  formatErrors: string[];
+  inventoryByRoom: Map<string, RoomInfo>;
+  config: ValidationRuleConfig;
+};
+
+export type ValidationResponse = {
+  issues: ValidationIssue[];
+};
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ValidationRequest>) => {
+  const response: ValidationResponse = {
+    issues: validateSchedule(e.data),
+  };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,125 @@
+import { format } from "date-fns";
+import * as XLSX from "xlsx";
+import { ROW_FIELDS } from "./constants";
+import { downloadBlob } from "./scheduleExport";
+import type { Row, RowField, ValidationIssue, ValidationIssueCode } from "./types";
+import { parseExcelDate, parseTimeOnDate } from "./utils";
+import { ISSUE_CODE_LABELS } from "./validation";
+
+type ReportCell = string | number;
+
+type ReportSheet = {
+  name: string;
+  columns: string[];
+  records: Record<string, ReportCell>[];
+};
+
+//Issues not matched by an earlier sheet land on the last one
+const REPORT_SHEETS: { name: string; codes: ValidationIssueCode[] | null }[] = [
+  { name: "Conflicts", codes: ["room-conflict", "instructor-conflict"] },
+  { name: "Missing Data", codes: ["missing-data"] },
+  { name: "Header Problems", codes: ["header-problem"] },
+  { name: "Other Issues", codes: null },
+];
+
+//Named apart from the Row field columns, which also have a Term and Room
+const ISSUE_COLUMNS = [
+  "Type",
+  "Severity",
+  "Message",
+  "Affected Term",
+  "Affected Room",
+  "Affected Instructors",
+  "Affected Offering Ids",
+];
+
+//Dates and times are written as text; Excel serials would be unreadable on their own
+function formatRowField(r: Row, field: RowField): ReportCell {
+  const value = r[field];
+  if (value == null) return "";
+
+  if (field === "startDate" || field === "endDate") {
+    const d = parseExcelDate(value);
+    return d ? format(d, "M/d/yyyy") : String(value);
+  }
+
+  if ((field === "startTime" || field === "endTime") && typeof value === "number") {
+    const d = parseTimeOnDate(new Date(2000, 0, 3), value);
+    return isNaN(d.getTime()) ? value : format(d, "h:mm a");
+  }
+
+  return typeof value === "number" ? value : String(value);
+}
+
+//One record per issue and offending row, so a room with hundreds of rows in one issue
+//adds records rather than columns. Every record repeats its issue's columns, and the
+//Issue number ties together the records of one issue. Issues without rows (header
+//problems) get a single record with the row columns left blank.
+function buildSheet(name: string, issues: ValidationIssue[], rows: Row[]): ReportSheet {
+  const columns = ["Issue", ...ISSUE_COLUMNS, "Source Sheet", "Source Row", ...ROW_FIELDS.map(f => f.label)];
+
+  const records = issues.flatMap((issue, idx) => {
+    const issueRecord: Record<string, ReportCell> = {
+      Issue: idx + 1,
+      Type: ISSUE_CODE_LABELS[issue.code],
+      Severity: issue.severity,
+      Message: issue.message,
+      "Affected Term": issue.term,
+      "Affected Room": issue.room,
+      "Affected Instructors": issue.instructors.join(", "),
+      "Affected Offering Ids": issue.offeringIds.join(", "),
+    };
+
+    const issueRows = issue.rowIndices.filter(rowIndex => rows[rowIndex]);
+    if (!issueRows.length) return [issueRecord];
+
+    return issueRows.map(rowIndex => {
+      const r = rows[rowIndex];
+      const record: Record<string, ReportCell> = {
+        ...issueRecord,
+        "Source Sheet": r.sourceSheet ?? "",
+        "Source Row": r.sourceRow ?? rowIndex + 2,
+      };
+      for (const { field, label } of ROW_FIELDS) record[label] = formatRowField(r, field);
+      return record;
+    });
+  });
+
+  return { name, columns, records };
+}
+
+export function buildValidationReport(issues: ValidationIssue[], rows: Row[]): ReportSheet[] {
+  const remaining = new Set(issues);
+  const sheets: ReportSheet[] = [];
+
+  for (const { name, codes } of REPORT_SHEETS) {
+    const matched = issues.filter(i => remaining.has(i) && (!codes || codes.includes(i.code)));
+    matched.forEach(i => remaining.delete(i));
+
+    //The catch-all sheet is only added when something lands on it
+    if (!codes && matched.length === 0) continue;
+    sheets.push(buildSheet(name, matched, rows));
+  }
+
+  return sheets;
+}
+
+function toWorksheet(sheet: ReportSheet): XLSX.WorkSheet {
+  return XLSX.utils.json_to_sheet(sheet.records, { header: sheet.columns });
+}
+
+export function downloadValidationWorkbook(issues: ValidationIssue[], rows: Row[], fileName: string) {
+  const wb = XLSX.utils.book_new();
+  for (const sheet of buildValidationReport(issues, rows)) {
+    XLSX.utils.book_append_sheet(wb, toWorksheet(sheet), sheet.name);
+  }
+  XLSX.writeFile(wb, fileName);
+}
+
+//A single CSV cannot hold several sheets, so every issue goes in one table
+export function downloadValidationCsv(issues: ValidationIssue[], rows: Row[], fileName: string) {
+  const csv = XLSX.utils.sheet_to_csv(toWorksheet(buildSheet("Validation", issues, rows)));
+
+  //The byte order mark makes Excel read the file as UTF-8
+  downloadBlob(new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" }), fileName);
+}
@@ -0,0 +1,461 @@
+import { format } from "date-fns";
+import { findConflictIssues } from "./conflicts";
+import { VALIDATION_RULES_STORAGE_KEY } from "./constants";
+import { findCrossListGroups } from "./crossListing";
+import type {
+  CalendarEntry,
+  RoomInfo,
+  Row,
+  ValidationIssue,
+  ValidationIssueCode,
+  ValidationRuleConfig,
+  ValidationRuleId,
+  ValidationSchedRow,
+} from "./types";
+import {
+  WEEKDAY_LABELS,
+  distinct,
+  getBuilding,
+  normalizeDays,
+  parseTimeOnDate,
+  timeToMinutes,
+} from "./utils";
+import {
+  dedupeIssues,
+  findHeaderIssues,
+  findInventoryIssues,
+  findMissingDataIssues,
+  getSchedulableRows,
+  offeringIdsOf,
+} from "./validation";
+
+type RuleContext = {
+  rows: Row[];
+  inventoryByRoom: Map<string, RoomInfo>;
+  conflictIssues: ValidationIssue[];
+  //Scheduled rows that can be placed in time, one entry per class meeting;
+  //cross-listed sections share an entry
+  meetings: ValidationSchedRow[][];
+};
+
+type RuleParam = {
+  key: string;
+  label: string;
+  type: "number" | "time" | "text";
+  defaultValue: string;
+  placeholder?: string;
+};
+
+export type ValidationRule = {
+  id: ValidationRuleId;
+  label: string;
+  description: string;
+  enabledByDefault: boolean;
+  params: RuleParam[];
+  check: (ctx: RuleContext, params: Record<string, string>) => ValidationIssue[];
+};
+
+//All clock times are placed on one reference day so only the time is compared
+const REFERENCE_DAY = new Date(2000, 0, 3);
+
+function parseClock(value: string): number | null {
+  if (!value.trim()) return null;
+  const d = parseTimeOnDate(REFERENCE_DAY, value);
+  return isNaN(d.getTime()) ? null : timeToMinutes(d);
+}
+
+function formatClock(minutes: number): string {
+  return format(new Date(2000, 0, 3, Math.floor(minutes / 60), minutes % 60), "h:mm a");
+}
+
+function parseClockList(value: string): number[] {
+  return value
+    .split(",")
+    .map(parseClock)
+    .filter((m): m is number => m !== null)
+    .sort((a, b) => a - b);
+}
+
+function parsePositive(value: string): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+const startOf = (m: ValidationSchedRow[]) => timeToMinutes(m[0].startTimeObj);
+const endOf = (m: ValidationSchedRow[]) => timeToMinutes(m[0].endTimeObj);
+const coursesOf = (m: ValidationSchedRow[]) => distinct(m.map(r => r.courseSection)).join(" / ");
+const daysOf = (m: ValidationSchedRow[]) => [...new Set(normalizeDays(m[0].daysMet))];
+const datesOverlap = (a: ValidationSchedRow[], b: ValidationSchedRow[]) =>
+  a[0].startDateObj <= b[0].endDateObj && b[0].startDateObj <= a[0].endDateObj;
+
+function policyIssue(
+  code: ValidationIssueCode,
+  members: ValidationSchedRow[],
+  message: string,
+  overrides: Partial<ValidationIssue> = {}
+): ValidationIssue {
+  return {
+    code,
+    severity: "warning",
+    message,
+    rowIndices: members.map(m => m.rowIndex),
+    offeringIds: offeringIdsOf(members.map(m => m.row)),
+    room: members[0]?.room ?? "",
+    term: members[0]?.term ?? "",
+    instructors: distinct(members.map(m => m.instructor)),
+    ...overrides,
+  };
+}
+
+function bucketMeetings(
+  meetings: ValidationSchedRow[][],
+  keysOf: (m: ValidationSchedRow[]) => string[]
+): Map<string, ValidationSchedRow[][]> {
+  const buckets = new Map<string, ValidationSchedRow[][]>();
+  for (const m of meetings) {
+    for (const key of keysOf(m)) {
+      if (!buckets.has(key)) buckets.set(key, []);
+      buckets.get(key)!.push(m);
+    }
+  }
+  return buckets;
+}
+
+function checkRoomTurnover(ctx: RuleContext, params: Record<string, string>): ValidationIssue[] {
+  const minGap = parsePositive(params.minutes);
+  if (minGap === null) return [];
+
+  const buckets = bucketMeetings(
+    ctx.meetings.filter(m => m[0].room),
+    m => daysOf(m).map(day => `${m[0].term}|${m[0].room}|${day}`)
+  );
+
+  //A pair meeting back to back on several days is reported once, listing the days
+  const pairs = new Map<string, { a: ValidationSchedRow[]; b: ValidationSchedRow[]; days: string[] }>();
+  for (const [key, list] of buckets) {
+    const day = key.slice(key.lastIndexOf("|") + 1);
+    for (const a of list) {
+      for (const b of list) {
+        const gap = startOf(b) - endOf(a);
+        if (a === b || gap < 0 || gap >= minGap || !datesOverlap(a, b)) continue;
+        const pairKey = `${a[0].rowIndex}|${b[0].rowIndex}`;
+        if (!pairs.has(pairKey)) pairs.set(pairKey, { a, b, days: [] });
+        pairs.get(pairKey)!.days.push(day);
+      }
+    }
+  }
+
+  return Array.from(pairs.values(), ({ a, b, days }) =>
+    policyIssue(
+      "short-turnover",
+      [...a, ...b],
+      `Short turnover in ${a[0].term}: room ${a[0].room} has ${startOf(b) - endOf(a)} min between "${coursesOf(a)}" (ends ${formatClock(endOf(a))}) and "${coursesOf(b)}" (starts ${formatClock(startOf(b))}) on ${days.map(d => WEEKDAY_LABELS[d]).join("/")}; at least ${minGap} min is required.`
+    )
+  );
+}
+
+function checkInstructorDailyHours(
+  ctx: RuleContext,
+  params: Record<string, string>
+): ValidationIssue[] {
+  const maxHours = parsePositive(params.hours);
+  if (maxHours === null) return [];
+
+  //Co-taught meetings count toward every instructor teaching them
+  const buckets = bucketMeetings(ctx.meetings, m =>
+    distinct(m.map(r => r.instructor))
+      .filter(name => name !== "Unknown")
+      .flatMap(name => daysOf(m).map(day => `${m[0].term}|${name}|${day}`))
+  );
+
+  const issues: ValidationIssue[] = [];
+  for (const [key, list] of buckets) {
+    const [term, instructor, day] = key.split("|");
+
+    //Load changes only when a meeting starts, so the busiest day is at one of those dates
+    let busiest: ValidationSchedRow[][] = [];
+    let busiestMinutes = 0;
+    for (const candidate of list) {
+      const date = candidate[0].startDateObj;
+      const active = list.filter(m => m[0].startDateObj <= date && date <= m[0].endDateObj);
+      const minutes = active.reduce((sum, m) => sum + endOf(m) - startOf(m), 0);
+      if (minutes > busiestMinutes) {
+        busiest = active;
+        busiestMinutes = minutes;
+      }
+    }
+
+    if (busiestMinutes <= maxHours * 60) continue;
+    issues.push(
+      policyIssue(
+        "instructor-overload",
+        busiest.flat(),
+        `Teaching load in ${term}: ${instructor} teaches ${+(busiestMinutes / 60).toFixed(2)} hours on ${WEEKDAY_LABELS[day]}, over the ${maxHours}-hour daily limit.`,
+        { room: "", instructors: [instructor] }
+      )
+    );
+  }
+
+  return issues;
+}
+
+function checkEarliestStart(ctx: RuleContext, params: Record<string, string>): ValidationIssue[] {
+  const earliest = parseClock(params.time);
+  if (earliest === null) return [];
+
+  return ctx.meetings
+    .filter(m => startOf(m) < earliest)
+    .map(m =>
+      policyIssue(
+        "early-start",
+        m,
+        `Early start in ${m[0].term}: "${coursesOf(m)}" (${m[0].room || "no room"}) starts at ${formatClock(startOf(m))}, before ${formatClock(earliest)}.`
+      )
+    );
+}
+
+function checkReservedHours(ctx: RuleContext, params: Record<string, string>): ValidationIssue[] {
+  const start = parseClock(params.start);
+  const end = parseClock(params.end);
+  const days = new Set(normalizeDays(params.days));
+  if (start === null || end === null || start >= end || days.size === 0) return [];
+
+  //Blank means every room; otherwise room names or building prefixes
+  const targets = params.rooms
+    .split(",")
+    .map(t => t.trim().toLowerCase())
+    .filter(Boolean);
+  const isReserved = (room: string) =>
+    targets.length === 0 ||
+    targets.includes(room.toLowerCase()) ||
+    targets.includes(getBuilding(room).toLowerCase());
+
+  const reason = params.reason.trim() || "reserved hours";
+  const reservedBlock = `${[...days].map(d => WEEKDAY_LABELS[d]).join("/")} ${formatClock(start)}–${formatClock(end)}`;
+
+  return ctx.meetings
+    .filter(
+      m =>
+        m[0].room &&
+        isReserved(m[0].room) &&
+        daysOf(m).some(d => days.has(d)) &&
+        startOf(m) < end &&
+        start < endOf(m)
+    )
+    .map(m =>
+      policyIssue(
+        "reserved-hours",
+        m,
+        `Reserved hours in ${m[0].term}: "${coursesOf(m)}" meets in ${m[0].room} ${m[0].daysMet} ${formatClock(startOf(m))}–${formatClock(endOf(m))}, during ${reason} (${reservedBlock}).`
+      )
+    );
+}
+
+function checkMeetingGrid(ctx: RuleContext, params: Record<string, string>): ValidationIssue[] {
+  const patterns = [
+    { name: "MWF", days: new Set(["M", "W", "F"]), starts: parseClockList(params.mwf) },
+    { name: "TR", days: new Set(["T", "R"]), starts: parseClockList(params.tr) },
+  ];
+
+  const issues: ValidationIssue[] = [];
+  for (const m of ctx.meetings) {
+    //Meetings mixing the two patterns (or on weekends) have no standard grid, and
+    //Days Met with no day codes matches no pattern at all
+    const days = daysOf(m);
+    if (!days.length) continue;
+    const pattern = patterns.find(p => days.every(d => p.days.has(d)));
+    if (!pattern || pattern.starts.length === 0 || pattern.starts.includes(startOf(m))) continue;
+
+    issues.push(
+      policyIssue(
+        "off-grid-start",
+        m,
+        `Off-grid start in ${m[0].term}: "${coursesOf(m)}" (${m[0].room || "no room"}) meets ${m[0].daysMet} at ${formatClock(startOf(m))}; standard ${pattern.name} start times are ${pattern.starts.map(formatClock).join(", ")}.`
+      )
+    );
+  }
+  return issues;
+}
+
+export const VALIDATION_RULES: ValidationRule[] = [
+  {
+    id: "missing-data",
+    label: "Missing data",
+    description: "Rows with an empty required column.",
+    enabledByDefault: true,
+    params: [],
+    check: ctx => findMissingDataIssues(ctx.rows),
+  },
+  {
+    id: "room-conflict",
+    label: "Room conflicts",
+    description: "Two scheduled classes overlapping in the same room.",
+    enabledByDefault: true,
+    params: [],
+    check: ctx => ctx.conflictIssues.filter(i => i.code === "room-conflict"),
+  },
+  {
+    id: "instructor-conflict",
+    label: "Instructor conflicts",
+    description: "One instructor scheduled in two rooms at the same time.",
+    enabledByDefault: true,
+    params: [],
+    check: ctx => ctx.conflictIssues.filter(i => i.code === "instructor-conflict"),
+  },
+  {
+    id: "room-inventory",
+    label: "Room capacity and features",
+    description: "Classes larger than their room or needing features it lacks. Needs a room inventory.",
+    enabledByDefault: true,
+    params: [],
+    check: ctx => findInventoryIssues(ctx.rows, ctx.inventoryByRoom),
+  },
+  {
+    id: "room-turnover",
+    label: "Minimum passing time",
+    description: "Back-to-back classes in the same room need a gap between them.",
+    enabledByDefault: false,
+    params: [{ key: "minutes", label: "Minutes", type: "number", defaultValue: "10" }],
+    check: checkRoomTurnover,
+  },
+  {
+    id: "instructor-daily-hours",
+    label: "Maximum teaching hours per day",
+    description: "Total class time for one instructor on one weekday.",
+    enabledByDefault: false,
+    params: [{ key: "hours", label: "Hours", type: "number", defaultValue: "6" }],
+    check: checkInstructorDailyHours,
+  },
+  {
+    id: "earliest-start",
+    label: "Earliest start time",
+    description: "No classes starting before this time.",
+    enabledByDefault: false,
+    params: [{ key: "time", label: "Not before", type: "time", defaultValue: "08:00" }],
+    check: checkEarliestStart,
+  },
+  {
+    id: "reserved-hours",
+    label: "Reserved hours",
+    description: "Rooms kept free at certain times, e.g. a campus-wide common hour.",
+    enabledByDefault: false,
+    params: [
+      { key: "reason", label: "Name", type: "text", defaultValue: "Common hour" },
+      { key: "rooms", label: "Rooms or buildings", type: "text", defaultValue: "", placeholder: "All rooms" },
+      { key: "days", label: "Days", type: "text", defaultValue: "W", placeholder: "e.g. MWF" },
+      { key: "start", label: "From", type: "time", defaultValue: "12:00" },
+      { key: "end", label: "To", type: "time", defaultValue: "13:00" },
+    ],
+    check: checkReservedHours,
+  },
+  {
+    id: "meeting-grid",
+    label: "Standard meeting pattern",
+    description: "MWF and TR classes must start at one of the listed times.",
+    enabledByDefault: false,
+    params: [
+      {
+        key: "mwf",
+        label: "MWF start times",
+        type: "text",
+        defaultValue: "8:00, 9:00, 10:00, 11:00, 12:00, 13:00, 14:00, 15:00, 16:00",
+      },
+      {
+        key: "tr",
+        label: "TR start times",
+        type: "text",
+        defaultValue: "8:00, 9:30, 11:00, 12:30, 14:00, 15:30",
+      },
+    ],
+    check: checkMeetingGrid,
+  },
+];
+
+export function getDefaultRuleConfig(): ValidationRuleConfig {
+  return Object.fromEntries(
+    VALIDATION_RULES.map(rule => [
+      rule.id,
+      {
+        enabled: rule.enabledByDefault,
+        params: Object.fromEntries(rule.params.map(p => [p.key, p.defaultValue])),
+      },
+    ])
+  ) as ValidationRuleConfig;
+}
+
+//Saved settings are laid over the defaults so rules added later still get values
+export function loadRuleConfig(): ValidationRuleConfig {
+  const config = getDefaultRuleConfig();
+  try {
+    const raw = localStorage.getItem(VALIDATION_RULES_STORAGE_KEY);
+    const saved = raw ? JSON.parse(raw) : {};
+    for (const rule of VALIDATION_RULES) {
+      const setting = saved?.[rule.id];
+      if (!setting || typeof setting !== "object") continue;
+      if (typeof setting.enabled === "boolean") config[rule.id].enabled = setting.enabled;
+      for (const p of rule.params) {
+        if (typeof setting.params?.[p.key] === "string") config[rule.id].params[p.key] = setting.params[p.key];
+      }
+    }
+  } catch {
+    //Fall back to the defaults
+  }
+  return config;
+}
+
+export function saveRuleConfig(config: ValidationRuleConfig) {
+  localStorage.setItem(VALIDATION_RULES_STORAGE_KEY, JSON.stringify(config));
+}
+
+type RunRulesInput = {
+  rows: Row[];
+  formatErrors: string[];
+  inventoryByRoom: Map<string, RoomInfo>;
+  conflictIssues: ValidationIssue[];
+  config: ValidationRuleConfig;
+};
+
+//Header problems are always reported; every other check is an enabled rule
+export function runValidationRules({
+  rows,
+  formatErrors,
+  inventoryByRoom,
+  conflictIssues,
+  config,
+}: RunRulesInput): ValidationIssue[] {
+  const enabled = VALIDATION_RULES.filter(rule => config[rule.id].enabled);
+  if (enabled.length === 0) return findHeaderIssues(formatErrors);
+
+  const crossListGroups = findCrossListGroups(rows);
+  const meetingsByGroup = new Map<string, ValidationSchedRow[]>();
+  for (const r of getSchedulableRows(rows)) {
+    if (r.status !== "Scheduled") continue;
+    const group = crossListGroups.get(r.rowIndex) ?? `row-${r.rowIndex}`;
+    if (!meetingsByGroup.has(group)) meetingsByGroup.set(group, []);
+    meetingsByGroup.get(group)!.push(r);
+  }
+
+  const ctx: RuleContext = {
+    rows,
+    inventoryByRoom,
+    conflictIssues,
+    meetings: Array.from(meetingsByGroup.values()),
+  };
+
+  return dedupeIssues([
+    ...findHeaderIssues(formatErrors),
+    ...enabled.flatMap(rule => rule.check(ctx, config[rule.id].params)),
+  ]);
+}
+
+type ValidateScheduleInput = Omit<RunRulesInput, "conflictIssues"> & {
+  calendar: CalendarEntry[];
+};
+
+//The whole validation pass, conflicts included; useValidationIssues runs it in a worker
+export function validateSchedule({ calendar, ...input }: ValidateScheduleInput): ValidationIssue[] {
+  const { config, rows } = input;
+  const needsConflicts = config["room-conflict"].enabled || config["instructor-conflict"].enabled;
+  const conflictIssues = needsConflicts ? findConflictIssues(rows, calendar) : [];
+  return runValidationRules({ ...input, conflictIssues });
+}